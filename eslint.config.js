@@ -29,6 +29,7 @@ export default [
       ],
       'no-undef': 'off', // TypeScript handles this
       'no-unused-vars': 'off', // Use TypeScript version
+      'no-redeclare': 'off', // Flags function overloads; TypeScript reports real redeclarations
     },
   },
   {
@@ -1,5 +1,6 @@
 import { importModule } from 'local-pkg';
 import type { EnvironmentStencil } from '../types.js';
+import { applyHappyDomPolyfills } from '../../setup/happy-dom-setup.js';
 
 export default <EnvironmentStencil>async function (global, options) {
   const { Window, GlobalWindow } = (await importModule('happy-dom')) as any;
@@ -11,6 +12,9 @@ export default <EnvironmentStencil>async function (global, options) {
 
   const window = new (GlobalWindow || Window)(happyDomOptions);
 
+  // Apply all polyfills using shared logic
+  applyHappyDomPolyfills(window);
+
   return {
     window,
     teardown() {
@@ -1,6 +1,6 @@
 import type { Environment } from 'vitest/environments';
 import { populateGlobal } from 'vitest/environments';
-import type { EnvironmentStencil } from './types.js';
+import { AUTO_CLEANUP_GLOBAL, type EnvironmentStencil } from './types.js';
 import happyDom from './env/happy-dom.js';
 import jsdom from './env/jsdom.js';
 import mockDoc from './env/mock-doc.js';
@@ -11,6 +11,12 @@ export interface StencilEnvironmentOptions {
    * @default 'mock-doc'
    */
   domEnvironment?: 'mock-doc' | 'happy-dom' | 'jsdom';
+
+  /**
+   * Unmount every stage created by `render()` after each test and report possible leaks
+   * @default false
+   */
+  autoCleanup?: boolean | { reportLeaks?: boolean };
 }
 
 const environmentMap: Record<string, EnvironmentStencil> = {
@@ -29,7 +35,8 @@ const environmentMap: Record<string, EnvironmentStencil> = {
  *     environment: 'stencil',
  *     environmentOptions: {
  *       stencil: {
- *         domEnvironment: 'mock-doc' // or 'happy-dom' or 'jsdom'
+ *         domEnvironment: 'mock-doc', // or 'happy-dom' or 'jsdom'
+ *         autoCleanup: true,
  *       }
  *     }
  *   }
@@ -76,6 +83,11 @@ export default <Environment>{
       bindFunctions: true,
     });
 
+    // Picked up by the test utilities when they are imported
+    if (stencil.autoCleanup) {
+      (global as any)[AUTO_CLEANUP_GLOBAL] = stencil.autoCleanup;
+    }
+
     return {
       teardown(global) {
         // Teardown the environment first (e.g., window.close())
@@ -84,6 +96,7 @@ export default <Environment>{
         envTeardown();
 
         // Then clean up populated globals
+        delete (global as any)[AUTO_CLEANUP_GLOBAL];
         keys.forEach((key) => delete (global as any)[key]);
         originals.forEach((v, k) => ((global as any)[k] = v));
       },
@@ -4,3 +4,18 @@ export interface EnvironmentReturn {
 }
 
 export type EnvironmentStencil = (global: typeof globalThis, options: any) => Promise<EnvironmentReturn>;
+
+/**
+ * Global set by the `stencil` environment to enable auto-cleanup in test files
+ */
+export const AUTO_CLEANUP_GLOBAL = '__STENCIL_VITEST_AUTO_CLEANUP__';
+
+/**
+ * Window property holding the animation frame scheduler installed by the DOM environment setups
+ */
+export const ANIMATION_FRAMES_GLOBAL = '__STENCIL_VITEST_ANIMATION_FRAMES__';
+
+/**
+ * Window property holding the form state of elements with `ElementInternals`, installed by the DOM environment setups
+ */
+export const ELEMENT_INTERNALS_GLOBAL = '__STENCIL_VITEST_ELEMENT_INTERNALS__';
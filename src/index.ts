@@ -3,5 +3,60 @@ import './testing/matchers.js';
 import './testing/snapshot-serializer.js';
 
 export { h } from '@stencil/core';
-export { render } from './testing/render.js';
-export type { RenderOptions, RenderResult } from './types.js';
+export {
+  render,
+  renderAll,
+  screen,
+  cleanup,
+  waitForChanges,
+  waitFor,
+  waitForSelector,
+  expectNoRerender,
+  watchSpy,
+} from './testing/render.js';
+export { spyOnEvent, waitForEvent, recordEvents } from './testing/event-spy.js';
+export { find, findAll } from './testing/query.js';
+export { fireEvent } from './testing/fire-event.js';
+export { getFormData, submitForm } from './testing/forms.js';
+export { within } from './testing/queries.js';
+export { userEvent } from './testing/user-event.js';
+export { getInstance } from './testing/stencil-runtime.js';
+export { getLifecycleCalls, getRenderCount } from './testing/lifecycle.js';
+export { enableAutoCleanup, type AutoCleanupOptions } from './testing/cleanup.js';
+export { html } from './testing/html-template.js';
+export {
+  useFakeAnimationFrames,
+  useRealAnimationFrames,
+  isFakeAnimationFrames,
+  advanceFrames,
+  flushAnimationFrames,
+  getPendingAnimationFrames,
+  type FakeAnimationFramesOptions,
+} from './testing/animation-frames.js';
+export type {
+  AccessibilityImpact,
+  AccessibilityOptions,
+  BoundQueries,
+  ByRoleOptions,
+  ByTextOptions,
+  EventSpy,
+  EventTimeline,
+  FindOptions,
+  FireEventInit,
+  LifecycleHook,
+  MatchOptions,
+  PropChange,
+  RenderOptions,
+  RenderResult,
+  SpyOnEventOptions,
+  TemplateResult,
+  TextMatch,
+  TimelineEntry,
+  UserEventTabOptions,
+  UserEventTypeOptions,
+  WaitForChangesOptions,
+  WaitForEventOptions,
+  WaitForOptions,
+  WaitForSelectorOptions,
+  WatchSpy,
+} from './types.js';
@@ -0,0 +1,170 @@
+/**
+ * Animation frame scheduler for the node DOM environments
+ *
+ * Replaces `requestAnimationFrame`/`cancelAnimationFrame` with a scheduler that
+ * runs frames automatically (like the previous `setTimeout(cb, 0)` polyfills),
+ * or only when a test steps it with `advanceFrames()`/`flushAnimationFrames()`.
+ */
+import { ANIMATION_FRAMES_GLOBAL } from '../environments/types.js';
+
+/**
+ * Animation frame scheduler installed on the window
+ */
+export interface AnimationFrameScheduler {
+  request: (callback: FrameRequestCallback) => number;
+  cancel: (id: number) => void;
+  /**
+   * Run the given number of frames, even if no callbacks are pending
+   */
+  advance: (count: number) => void;
+  /**
+   * Run frames until no callbacks are pending. Returns the number of frames run
+   */
+  flush: (maxFrames: number) => number;
+  /**
+   * Number of callbacks waiting for the next frame
+   */
+  pending: () => number;
+  /**
+   * Stop running frames automatically and fake `performance.now()` against the frame clock
+   */
+  useFake: (frameDuration: number) => void;
+  /**
+   * Run frames automatically again, restore `performance.now()` and drop pending callbacks
+   */
+  useReal: () => void;
+  isFake: () => boolean;
+}
+
+/**
+ * Create an animation frame scheduler
+ */
+function createAnimationFrameScheduler(): AnimationFrameScheduler {
+  // Captured up front so frames keep running when a test fakes timers but not animation frames
+  const schedule = globalThis.setTimeout;
+  const unschedule = globalThis.clearTimeout;
+
+  let callbacks = new Map<number, FrameRequestCallback>();
+  let nextId = 1;
+  let tick: ReturnType<typeof setTimeout> | undefined;
+
+  let fake = false;
+  let frameDuration = 16;
+  let time = 0;
+  let patchedPerformance: { target: any; hadOwnNow: boolean; now: () => number } | undefined;
+
+  const scheduleTick = () => {
+    if (!fake && tick === undefined && callbacks.size > 0) {
+      tick = schedule(runFrame, 0);
+    }
+  };
+
+  function runFrame() {
+    tick = undefined;
+    // Callbacks requested during this frame run in the next one
+    const frame = callbacks;
+    callbacks = new Map();
+    const timestamp = fake ? (time += frameDuration) : performance.now();
+
+    const errors: unknown[] = [];
+    frame.forEach((callback) => {
+      try {
+        callback(timestamp);
+      } catch (e) {
+        errors.push(e);
+      }
+    });
+
+    scheduleTick();
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  return {
+    request(callback) {
+      const id = nextId++;
+      callbacks.set(id, callback);
+      scheduleTick();
+      return id;
+    },
+
+    cancel(id) {
+      callbacks.delete(id);
+    },
+
+    advance(count) {
+      for (let i = 0; i < count; i++) {
+        runFrame();
+      }
+    },
+
+    flush(maxFrames) {
+      let frames = 0;
+      while (callbacks.size > 0) {
+        if (frames >= maxFrames) {
+          throw new Error(
+            `flushAnimationFrames() gave up after ${maxFrames} frames. ${callbacks.size} callback(s) are still pending`,
+          );
+        }
+        runFrame();
+        frames++;
+      }
+      return frames;
+    },
+
+    pending() {
+      return callbacks.size;
+    },
+
+    useFake(duration) {
+      frameDuration = duration;
+      if (fake) return;
+
+      fake = true;
+      if (tick !== undefined) {
+        unschedule(tick);
+        tick = undefined;
+      }
+
+      const target = globalThis.performance;
+      // A whole number, so the frame clock moves by exact steps
+      time = Math.ceil(target.now());
+      patchedPerformance = {
+        target,
+        hadOwnNow: Object.prototype.hasOwnProperty.call(target, 'now'),
+        now: target.now,
+      };
+      target.now = () => time;
+    },
+
+    useReal() {
+      if (!fake) return;
+
+      fake = false;
+      if (patchedPerformance) {
+        const { target, hadOwnNow, now } = patchedPerformance;
+        if (hadOwnNow) target.now = now;
+        else delete target.now;
+        patchedPerformance = undefined;
+      }
+      // Callbacks left from the faked frames are dropped, so loops a test started don't outlive it
+      callbacks.clear();
+    },
+
+    isFake() {
+      return fake;
+    },
+  };
+}
+
+/**
+ * Install the animation frame scheduler on a window
+ */
+export function installAnimationFrames(win: any) {
+  const scheduler = createAnimationFrameScheduler();
+
+  win.requestAnimationFrame = (callback: FrameRequestCallback) => scheduler.request(callback);
+  win.cancelAnimationFrame = (id: number) => scheduler.cancel(id);
+  win[ANIMATION_FRAMES_GLOBAL] = scheduler;
+}
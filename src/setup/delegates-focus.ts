@@ -0,0 +1,40 @@
+/**
+ * `delegatesFocus` for the node DOM environments
+ *
+ * jsdom and mock-doc have no `ShadowRoot.delegatesFocus`, and happy-dom always reports `false`, whatever
+ * `attachShadow()` was given. This keeps the option on the shadow roots it creates, like browsers do, so
+ * focus delegation can be read from the shadow root in every build.
+ */
+
+const INSTALLED = Symbol.for('stencil-vitest.delegates-focus');
+
+/**
+ * Keep the `delegatesFocus` option passed to `attachShadow()` on the shadow root
+ */
+export function installDelegatesFocus(win: any) {
+  // Find the prototype `attachShadow()` is defined on, which differs between environments
+  let proto = Object.getPrototypeOf(win.document.createElement('div'));
+  while (proto && !Object.prototype.hasOwnProperty.call(proto, 'attachShadow')) {
+    proto = Object.getPrototypeOf(proto);
+  }
+  if (!proto || proto[INSTALLED]) return;
+
+  const attachShadow = proto.attachShadow;
+  Object.defineProperties(proto, {
+    [INSTALLED]: { value: true },
+    attachShadow: {
+      configurable: true,
+      writable: true,
+      value(this: Element, init: ShadowRootInit) {
+        const shadowRoot = attachShadow.call(this, init);
+        if (shadowRoot && shadowRoot.delegatesFocus !== !!init?.delegatesFocus) {
+          Object.defineProperty(shadowRoot, 'delegatesFocus', {
+            value: !!init?.delegatesFocus,
+            configurable: true,
+          });
+        }
+        return shadowRoot;
+      },
+    },
+  });
+}
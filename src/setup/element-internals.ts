@@ -0,0 +1,230 @@
+/**
+ * ElementInternals for the node DOM environments
+ *
+ * mock-doc returns a stub from `attachInternals()`, jsdom's internals only reflect ARIA and happy-dom has
+ * none, so form-associated components (`formAssociated: true` with `@AttachInternals()`) cannot take part
+ * in forms. This installs the form parts of `ElementInternals`: `setFormValue()`, `setValidity()` and the
+ * constraint validation API, `form`, `labels` and `states`. jsdom's own internals are kept and extended.
+ */
+import { ELEMENT_INTERNALS_GLOBAL } from '../environments/types.js';
+
+/**
+ * A value passed to `ElementInternals.setFormValue()`
+ */
+export type FormValue = string | File | FormData | null;
+
+/**
+ * Lookup of the internals attached to each element, installed on the window
+ */
+export interface ElementInternalsRegistry {
+  /**
+   * The internals attached to a host element
+   */
+  get: (host: Element) => ElementInternals | undefined;
+  /**
+   * The value last passed to `setFormValue()` for a host element, or `undefined` without internals
+   */
+  formValue: (host: Element) => FormValue | undefined;
+}
+
+/**
+ * A reason an element fails constraint validation
+ */
+export type ValidityFlag = Exclude<keyof ValidityState, 'valid'>;
+
+/**
+ * Every `ValidityState` flag apart from `valid`
+ */
+export const VALIDITY_FLAGS: ValidityFlag[] = [
+  'valueMissing',
+  'typeMismatch',
+  'patternMismatch',
+  'tooLong',
+  'tooShort',
+  'rangeUnderflow',
+  'rangeOverflow',
+  'stepMismatch',
+  'badInput',
+  'customError',
+];
+
+interface InternalsState {
+  host: HTMLElement;
+  value: FormValue;
+  state: FormValue;
+  flags: Partial<Record<ValidityFlag, boolean>>;
+  message: string;
+  states: Set<string>;
+}
+
+// Internals attached to each host, and the form state behind each internals object
+const attached = new WeakMap<Element, ElementInternals>();
+const internalsStates = new WeakMap<object, InternalsState>();
+
+function stateOf(internals: object, method: string, formOnly = true): InternalsState {
+  const state = internalsStates.get(internals);
+  if (!state) {
+    throw new TypeError(`Failed to execute '${method}' on 'ElementInternals': Illegal invocation`);
+  }
+  if (formOnly && !(state.host.constructor as any).formAssociated) {
+    throw new DOMException(
+      `Failed to execute '${method}' on 'ElementInternals': The target element is not a form-associated custom element.`,
+      'NotSupportedError',
+    );
+  }
+  return state;
+}
+
+function isDisabled(host: Element): boolean {
+  return host.hasAttribute('disabled') || !!host.closest('fieldset[disabled]');
+}
+
+function isValid(state: InternalsState): boolean {
+  return !VALIDITY_FLAGS.some((flag) => state.flags[flag]);
+}
+
+/**
+ * Set of custom states, matched by `:state()` in browsers
+ */
+class CustomStateSet extends Set<string> {}
+
+/**
+ * The form-associated members of `ElementInternals`. Members missing from the environment's own
+ * `ElementInternals` are copied from here
+ */
+class FormInternals {
+  setFormValue(value: FormValue, state: FormValue = value) {
+    const internals = stateOf(this, 'setFormValue');
+    internals.value = value;
+    internals.state = state;
+  }
+
+  get form(): HTMLFormElement | null {
+    const { host } = stateOf(this, 'form');
+    const formId = host.getAttribute('form');
+    if (formId !== null) {
+      const form = (host.getRootNode() as Document).getElementById?.(formId);
+      return form?.tagName === 'FORM' ? (form as HTMLFormElement) : null;
+    }
+    return host.closest('form');
+  }
+
+  get labels(): HTMLLabelElement[] {
+    const { host } = stateOf(this, 'labels');
+    const byId = host.id
+      ? Array.from((host.getRootNode() as Document).querySelectorAll?.<HTMLLabelElement>('label[for]') ?? []).filter(
+          (label) => label.getAttribute('for') === host.id,
+        )
+      : [];
+    const wrapping = host.closest('label');
+    return wrapping && !byId.includes(wrapping) ? [...byId, wrapping] : byId;
+  }
+
+  get willValidate(): boolean {
+    const { host } = stateOf(this, 'willValidate');
+    return !isDisabled(host) && !host.hasAttribute('readonly');
+  }
+
+  get validity(): ValidityState {
+    const state = stateOf(this, 'validity');
+    const flags = Object.fromEntries(VALIDITY_FLAGS.map((flag) => [flag, !!state.flags[flag]]));
+    return { ...flags, valid: isValid(state) } as ValidityState;
+  }
+
+  get validationMessage(): string {
+    return stateOf(this, 'validationMessage').message;
+  }
+
+  setValidity(flags: ValidityStateFlags = {}, message = '') {
+    const state = stateOf(this, 'setValidity');
+    const set = VALIDITY_FLAGS.filter((flag) => (flags as Record<string, boolean | undefined>)[flag]);
+    if (set.length > 0 && !message) {
+      throw new TypeError(
+        "Failed to execute 'setValidity' on 'ElementInternals': The second argument should not be empty if one or more flags in the first argument are true.",
+      );
+    }
+    state.flags = Object.fromEntries(set.map((flag) => [flag, true]));
+    state.message = set.length > 0 ? message : '';
+  }
+
+  checkValidity(): boolean {
+    const state = stateOf(this, 'checkValidity');
+    if (!this.willValidate || isValid(state)) return true;
+
+    const view: any = state.host.ownerDocument.defaultView ?? globalThis;
+    state.host.dispatchEvent(new view.Event('invalid', { bubbles: false, cancelable: true }));
+    return false;
+  }
+
+  reportValidity(): boolean {
+    return this.checkValidity();
+  }
+
+  get states(): CustomStateSet {
+    return stateOf(this, 'states', false).states;
+  }
+
+  get shadowRoot(): ShadowRoot | null {
+    return stateOf(this, 'shadowRoot', false).host.shadowRoot;
+  }
+}
+
+/**
+ * Copy the members of `FormInternals` that a prototype lacks onto it
+ */
+function extend(proto: object) {
+  Object.getOwnPropertyNames(FormInternals.prototype)
+    .filter((name) => name !== 'constructor' && !(name in proto))
+    .forEach((name) => {
+      Object.defineProperty(proto, name, Object.getOwnPropertyDescriptor(FormInternals.prototype, name)!);
+    });
+}
+
+/**
+ * Install `ElementInternals` with form support on a window
+ */
+export function installElementInternals(win: any) {
+  const proto = win.HTMLElement?.prototype;
+  if (!proto) return;
+
+  // Only jsdom's own `attachInternals()` is kept: mock-doc's returns a stub that logs on every access
+  const nativeAttach: (() => ElementInternals) | undefined = win.ElementInternals ? proto.attachInternals : undefined;
+  if (win.ElementInternals) {
+    extend(win.ElementInternals.prototype);
+  } else {
+    win.ElementInternals = FormInternals;
+  }
+  if (!win.CustomStateSet) {
+    win.CustomStateSet = CustomStateSet;
+  }
+
+  proto.attachInternals = function attachInternals(this: HTMLElement): ElementInternals {
+    if (attached.has(this)) {
+      throw new DOMException(
+        "Failed to execute 'attachInternals' on 'HTMLElement': ElementInternals for the specified element was already attached.",
+        'NotSupportedError',
+      );
+    }
+
+    const internals = nativeAttach ? nativeAttach.call(this) : Object.create(win.ElementInternals.prototype);
+    internalsStates.set(internals, {
+      host: this,
+      value: null,
+      state: null,
+      flags: {},
+      message: '',
+      states: new CustomStateSet(),
+    });
+    attached.set(this, internals);
+    return internals;
+  };
+
+  const registry: ElementInternalsRegistry = {
+    get: (host) => attached.get(host),
+    formValue: (host) => {
+      const internals = attached.get(host);
+      return internals ? (internalsStates.get(internals)?.value ?? null) : undefined;
+    },
+  };
+  win[ELEMENT_INTERNALS_GLOBAL] = registry;
+}
@@ -0,0 +1,116 @@
+/**
+ * Event retargeting for mock-doc
+ *
+ * mock-doc hands every listener the element an event was dispatched on, even listeners outside the
+ * shadow root it came from, and its `composedPath()` stops at shadow roots. This patches mock-doc's
+ * `Event` so `target` and `relatedTarget` are retargeted to the shadow host for listeners outside
+ * the shadow tree, and `composedPath()` crosses shadow boundaries for composed events, as in browsers.
+ */
+
+const INSTALLED = Symbol.for('stencil-vitest.event-retargeting');
+
+// Targets as dispatched, before retargeting
+const targets = new WeakMap<object, any>();
+const relatedTargets = new WeakMap<object, any>();
+
+function isShadowRoot(node: any): boolean {
+  return node?.nodeType === 11 && !!node.host;
+}
+
+function rootOf(node: any): any {
+  let current = node;
+  while (current.parentNode) {
+    current = current.parentNode;
+  }
+  return current;
+}
+
+/**
+ * Check whether a node is `other` or one of its ancestors, counting shadow hosts as ancestors
+ */
+function containsAcrossShadows(node: any, other: any): boolean {
+  let current = other;
+  while (current) {
+    if (current === node) return true;
+    current = current.parentNode ?? current.host;
+  }
+  return false;
+}
+
+/**
+ * Retarget a node against the node currently handling the event: step out to the shadow host until
+ * the node's tree is visible from `against`
+ */
+function retarget(node: any, against: any): any {
+  let current = node;
+  while (current && typeof current === 'object' && 'nodeType' in current) {
+    const root = rootOf(current);
+    if (!isShadowRoot(root) || containsAcrossShadows(root, against)) return current;
+    current = root.host;
+  }
+  return current;
+}
+
+/**
+ * The nodes an event is dispatched through, from its target up to the window.
+ * Events that are not composed stop at the shadow root they were dispatched in
+ */
+function eventPath(event: any): any[] {
+  const path: any[] = [];
+  let node = targets.get(event);
+  while (node) {
+    path.push(node);
+    if (node.nodeType === 9) {
+      if (node.defaultView) path.push(node.defaultView);
+      break;
+    }
+    if (isShadowRoot(node)) {
+      if (!event.composed) break;
+      node = node.host;
+    } else {
+      node = node.parentNode;
+    }
+  }
+  return path;
+}
+
+/**
+ * Patch mock-doc's `Event` on a window with spec retargeting. Safe to call more than once
+ */
+export function installEventRetargeting(win: any) {
+  const proto = win.Event?.prototype;
+  if (!proto || proto[INSTALLED]) return;
+
+  Object.defineProperties(proto, {
+    [INSTALLED]: { value: true },
+    target: {
+      configurable: true,
+      get() {
+        return retarget(targets.get(this) ?? null, this.currentTarget);
+      },
+      set(value: any) {
+        targets.set(this, value);
+      },
+    },
+    composedPath: {
+      configurable: true,
+      writable: true,
+      value(this: any) {
+        return eventPath(this);
+      },
+    },
+  });
+
+  [win.FocusEvent, win.MouseEvent].forEach((EventConstructor) => {
+    if (!EventConstructor) return;
+    Object.defineProperty(EventConstructor.prototype, 'relatedTarget', {
+      configurable: true,
+      get() {
+        return retarget(relatedTargets.get(this) ?? null, this.currentTarget);
+      },
+      set(value: any) {
+        relatedTargets.set(this, value);
+      },
+    });
+  });
+}
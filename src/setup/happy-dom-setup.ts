@@ -5,13 +5,39 @@
  * Configures happy-dom with Stencil-specific setup
  * happy-dom generally has better built-in support than jsdom, so fewer polyfills are needed
  */
+import { installAnimationFrames } from './animation-frames.js';
+import { installDelegatesFocus } from './delegates-focus.js';
+import { installElementInternals } from './element-internals.js';
+import { installAssignedSlot } from './slot-assignment.js';
+
+/**
+ * Apply polyfills to a happy-dom window object for Stencil components
+ * This function is reused by both the setup file and the custom environment
+ */
+export function applyHappyDomPolyfills(window: Window & typeof globalThis) {
+  // Replace happy-dom's requestAnimationFrame so tests can control frames
+  installAnimationFrames(window);
+
+  // happy-dom has no ElementInternals
+  installElementInternals(window);
+
+  // happy-dom assigns slots but has no assignedSlot
+  installAssignedSlot(window.Node.prototype);
+
+  // happy-dom's shadow roots always report `delegatesFocus` as false
+  installDelegatesFocus(window);
+}
 
 /**
  * Main setup function for happy-dom environment
  */
 export async function setup() {
-  // happy-dom is generally more complete than jsdom out of the box
-  // Add polyfills here as needed when issues are discovered
+  // Skip if running in actual browser (Playwright, WebdriverIO, etc.)
+  if (typeof window === 'undefined' || typeof process === 'undefined' || typeof process.cwd !== 'function') {
+    return;
+  }
+
+  applyHappyDomPolyfills(window as any);
 }
 
 // Auto-run setup
@@ -5,7 +5,9 @@
  * in a jsdom environment. It handles:
  * - Polyfilling adoptedStyleSheets for Shadow DOM
  * - Polyfilling CSS support detection
- * - Polyfilling requestAnimationFrame and related APIs
+ * - Installing a controllable requestAnimationFrame scheduler and related APIs
+ * - Adding form support to ElementInternals
+ * - Keeping `delegatesFocus` on shadow roots
  * - Loading and initializing Stencil lazy loader
  *
  * @example
@@ -18,6 +20,9 @@
  * });
  * ```
  */
+import { installAnimationFrames } from './animation-frames.js';
+import { installDelegatesFocus } from './delegates-focus.js';
+import { installElementInternals } from './element-internals.js';
 
 /**
  * Apply polyfills to a jsdom window object for Stencil components
@@ -61,17 +66,15 @@ export function applyJsdomPolyfills(window: Window & typeof globalThis) {
   // Polyfill scrollTo
   window.scrollTo = () => {};
 
-  // Add requestAnimationFrame and related APIs
-  if (!window.requestAnimationFrame) {
-    (window as any).requestAnimationFrame = (cb: any) => {
-      return setTimeout(cb, 0) as any;
-    };
-  }
-  if (!window.cancelAnimationFrame) {
-    (window as any).cancelAnimationFrame = (id: any) => {
-      clearTimeout(id);
-    };
-  }
+  // Add form support (setFormValue, setValidity, states) to jsdom's ElementInternals
+  installElementInternals(window);
+
+  // Keep `delegatesFocus` on shadow roots
+  installDelegatesFocus(window);
+
+  // Add requestAnimationFrame and related APIs.
+  // jsdom's own implementation (with `pretendToBeVisual`) is replaced so tests can control frames
+  installAnimationFrames(window);
   if (!(window as any).requestIdleCallback) {
     (window as any).requestIdleCallback = (cb: any) => {
       return setTimeout(cb, 0) as any;
@@ -6,6 +6,11 @@
  * The projects-based config ensures this is only loaded for node:mock-doc projects.
  */
 import { MockWindow, setupGlobal, teardownGlobal } from '@stencil/core/mock-doc';
+import { installAnimationFrames } from './animation-frames.js';
+import { installDelegatesFocus } from './delegates-focus.js';
+import { installElementInternals } from './element-internals.js';
+import { installEventRetargeting } from './event-retargeting.js';
+import { installSlotAssignment } from './slot-assignment.js';
 
 /**
  * Apply polyfills to a window object for Stencil components
@@ -31,6 +36,13 @@ export function applyMockDocPolyfills(win: any) {
     };
   }
 
+  // Use Node's FormData, Blob and File, which the environment would otherwise replace with the window's (missing) ones
+  ['FormData', 'Blob', 'File'].forEach((name) => {
+    if (!win[name] && typeof (globalThis as any)[name] === 'function') {
+      win[name] = (globalThis as any)[name];
+    }
+  });
+
   // Add AbortController if it doesn't exist
   if (!win.AbortController) {
     win.AbortController = class AbortController {
@@ -49,13 +61,20 @@ export function applyMockDocPolyfills(win: any) {
     };
   }
 
+  // Retarget event.target and composedPath() across shadow boundaries
+  installEventRetargeting(win);
+
+  // Replace the ElementInternals stub with one that supports forms
+  installElementInternals(win);
+
+  // Assign slotted nodes the way browsers do and fire slotchange
+  installSlotAssignment(win);
+
+  // Keep `delegatesFocus` on shadow roots
+  installDelegatesFocus(win);
+
   // Add requestAnimationFrame and related APIs
-  win.requestAnimationFrame = (cb: any) => {
-    return setTimeout(cb, 0) as any;
-  };
-  win.cancelAnimationFrame = (id: any) => {
-    clearTimeout(id);
-  };
+  installAnimationFrames(win);
   win.requestIdleCallback = (cb: any) => {
     return setTimeout(cb, 0) as any;
   };
@@ -0,0 +1,196 @@
+/**
+ * Slot assignment for mock-doc
+ *
+ * mock-doc's `assignedNodes()` and `assignedElements()` return a slot's fallback content when nothing is
+ * assigned (browsers return nothing unless `flatten: true`), assign nodes to every slot sharing a name and
+ * do not flatten assigned slots. Nodes have no `assignedSlot` and `slotchange` never fires. This replaces
+ * them with the spec's slot assignment and fires `slotchange` after the mutations that change what a slot
+ * is assigned, like browsers do. happy-dom only lacks `assignedSlot`.
+ */
+
+const INSTALLED = Symbol.for('stencil-vitest.slot-assignment');
+
+// Nodes each slot was last seen with, to tell when its assignment changes
+const lastAssigned = new WeakMap<object, Node[]>();
+
+// Hosts whose slots need checking once the current task's mutations are done
+const pendingHosts = new Set<any>();
+
+function isShadowRoot(node: any): boolean {
+  return node?.nodeType === 11 && !!node.host;
+}
+
+function isSlot(node: any): boolean {
+  return node?.nodeType === 1 && node.nodeName.toLowerCase() === 'slot';
+}
+
+function rootOf(node: any): any {
+  let current = node;
+  while (current.parentNode) {
+    current = current.parentNode;
+  }
+  return current;
+}
+
+function slotName(slot: any): string {
+  return slot.getAttribute('name') ?? '';
+}
+
+/**
+ * The slot a host's child is assigned to: the first slot in the host's shadow tree with the child's
+ * `slot` name (text nodes go to the default slot)
+ */
+function findSlot(node: any): any {
+  const shadowRoot = node.parentNode?.shadowRoot;
+  if (!shadowRoot || (node.nodeType !== 1 && node.nodeType !== 3)) return null;
+
+  const name = node.nodeType === 1 ? (node.getAttribute('slot') ?? '') : '';
+  return Array.from(shadowRoot.querySelectorAll('slot')).find((slot) => slotName(slot) === name) ?? null;
+}
+
+function findSlottables(slot: any): Node[] {
+  const root = rootOf(slot);
+  if (!isShadowRoot(root)) return [];
+  return Array.from(root.host.childNodes as Node[]).filter((node) => findSlot(node) === slot);
+}
+
+/**
+ * Assigned nodes with assigned slots replaced by their own assigned nodes, or the slot's fallback content
+ * when nothing is assigned
+ */
+function findFlattenedSlottables(slot: any): Node[] {
+  const assigned = findSlottables(slot);
+  const nodes =
+    assigned.length > 0
+      ? assigned
+      : Array.from(slot.childNodes as any[]).filter((node) => node.nodeType === 1 || node.nodeType === 3);
+  return nodes.flatMap((node: any) =>
+    isSlot(node) && isShadowRoot(rootOf(node)) ? findFlattenedSlottables(node) : [node],
+  );
+}
+
+function sameNodes(a: Node[], b: Node[]): boolean {
+  return a.length === b.length && a.every((node, i) => node === b[i]);
+}
+
+/**
+ * Fire `slotchange` on the slots of the pending hosts whose assigned nodes changed
+ */
+function flushSlotChanges(win: any) {
+  const hosts = Array.from(pendingHosts);
+  pendingHosts.clear();
+
+  hosts.forEach((host) => {
+    if (!host.shadowRoot) return;
+    Array.from(host.shadowRoot.querySelectorAll('slot')).forEach((slot: any) => {
+      const assigned = findSlottables(slot);
+      if (sameNodes(assigned, lastAssigned.get(slot) ?? [])) return;
+
+      lastAssigned.set(slot, assigned);
+      slot.dispatchEvent(new win.Event('slotchange', { bubbles: true, composed: false }));
+    });
+  });
+}
+
+/**
+ * Queue a check of the slots a mutation of `node` may have affected: the slots of `node` as a host,
+ * and the slots of the shadow tree `node` is in
+ */
+function signalSlotChange(win: any, node: any) {
+  if (!node) return;
+
+  const wasIdle = pendingHosts.size === 0;
+  if (node.shadowRoot) pendingHosts.add(node);
+  const root = rootOf(node);
+  if (isShadowRoot(root)) pendingHosts.add(root.host);
+
+  if (wasIdle && pendingHosts.size > 0) {
+    queueMicrotask(() => flushSlotChanges(win));
+  }
+}
+
+/**
+ * Run a check after a method on a prototype
+ */
+function after(proto: any, method: string, check: (self: any, args: any[]) => void) {
+  const original = proto[method];
+  if (typeof original !== 'function') return;
+
+  proto[method] = function (this: any, ...args: any[]) {
+    const result = original.apply(this, args);
+    check(this, args);
+    return result;
+  };
+}
+
+/**
+ * Add `assignedSlot` to nodes, worked out from the slots' `assignedNodes()`, where the DOM lacks it
+ * (mock-doc and happy-dom)
+ */
+export function installAssignedSlot(nodeProto: any) {
+  if (!nodeProto || 'assignedSlot' in nodeProto) return;
+
+  Object.defineProperty(nodeProto, 'assignedSlot', {
+    configurable: true,
+    get() {
+      const shadowRoot = this.parentNode?.shadowRoot;
+      if (!shadowRoot) return null;
+      return (
+        Array.from(shadowRoot.querySelectorAll('slot')).find((slot: any) => slot.assignedNodes().includes(this)) ?? null
+      );
+    },
+  });
+}
+
+/**
+ * Patch mock-doc's slots and nodes on a window with spec slot assignment. Safe to call more than once
+ */
+export function installSlotAssignment(win: any) {
+  const slotProto = Object.getPrototypeOf(win.document.createElement('slot'));
+  const nodeProto = Object.getPrototypeOf(win.Node.prototype);
+  const elementProto = Object.getPrototypeOf(win.Element.prototype);
+  if (!slotProto || slotProto[INSTALLED]) return;
+
+  Object.defineProperties(slotProto, {
+    [INSTALLED]: { value: true },
+    assignedNodes: {
+      configurable: true,
+      writable: true,
+      value(this: any, options?: AssignedNodesOptions) {
+        return options?.flatten ? findFlattenedSlottables(this) : findSlottables(this);
+      },
+    },
+    assignedElements: {
+      configurable: true,
+      writable: true,
+      value(this: any, options?: AssignedNodesOptions) {
+        return this.assignedNodes(options).filter((node: Node) => node.nodeType === 1);
+      },
+    },
+  });
+
+  installAssignedSlot(nodeProto);
+
+  // Mutations that can change which nodes a slot is assigned
+  ['appendChild', 'insertBefore', 'removeChild'].forEach((method) =>
+    after(nodeProto, method, (self) => signalSlotChange(win, self)),
+  );
+  ['setAttribute', 'removeAttribute', 'setAttributeNS', 'removeAttributeNS'].forEach((method) =>
+    after(elementProto, method, (self, args) => {
+      const name = String(method.endsWith('NS') ? args[1] : args[0]).toLowerCase();
+      if (name === 'slot') signalSlotChange(win, self.parentNode);
+      if (name === 'name' && isSlot(self)) signalSlotChange(win, self);
+    }),
+  );
+  ['innerHTML', 'textContent'].forEach((property) => {
+    const descriptor = Object.getOwnPropertyDescriptor(elementProto, property);
+    if (!descriptor?.set) return;
+    Object.defineProperty(elementProto, property, {
+      ...descriptor,
+      set(value: string) {
+        descriptor.set!.call(this, value);
+        signalSlotChange(win, this);
+      },
+    });
+  });
+}
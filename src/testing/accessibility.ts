@@ -0,0 +1,97 @@
+/**
+ * Accessibility audits with axe-core
+ *
+ * axe-core is an optional peer dependency, loaded the first time an audit runs. axe follows open shadow
+ * roots itself, so auditing a stage covers the components rendered in it. jsdom and happy-dom don't lay out
+ * or paint, so rules that need layout or rendered colours only run in browsers. axe-core can't run in mock-doc.
+ */
+
+import type { AccessibilityImpact, AccessibilityOptions } from '../types.js';
+import { screen } from './render.js';
+import { isBrowserMode } from './user-event.js';
+
+/**
+ * Impacts from least to most severe
+ */
+const IMPACTS: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// Stages are fragments of a page, so they are not expected to sit in landmarks
+const STAGE_RULES: Record<string, boolean> = { region: false };
+
+// Rules that need layout or rendered colours, which the node DOMs don't compute
+const LAYOUT_RULES: Record<string, boolean> = {
+  'color-contrast': false,
+  'color-contrast-enhanced': false,
+  'link-in-text-block': false,
+  'target-size': false,
+};
+
+/**
+ * An axe-core rule that failed, with the nodes that failed it
+ */
+export interface AccessibilityViolation {
+  id: string;
+  impact: AccessibilityImpact;
+  help: string;
+  helpUrl: string;
+  nodes: { element?: Element; html: string }[];
+}
+
+// axe binds to the window it is evaluated in, so each window gets its own copy
+const axeByWindow = new WeakMap<object, any>();
+
+async function loadAxe(win: any): Promise<any> {
+  const loaded = axeByWindow.get(win);
+  if (loaded) return loaded;
+
+  let axe: any;
+  try {
+    const mod: any = await import('axe-core');
+    axe = mod.default ?? mod;
+  } catch {
+    throw new Error('toBeAccessible() needs axe-core. Install it with `npm install -D axe-core`');
+  }
+
+  // In browsers the module is already bound to the page's window, and evaluating its source would trip a strict CSP.
+  // Node DOMs share the module between test files, each with their own DOM: evaluate it again for this one
+  if (!isBrowserMode() && win.axe !== axe && typeof axe.source === 'string') {
+    new Function('window', axe.source)(win);
+    axe = win.axe;
+  }
+  axeByWindow.set(win, axe);
+  return axe;
+}
+
+/**
+ * Run axe-core on the stage an element was rendered in (or the element itself outside a stage) and
+ * return the violations at or above the requested impact
+ */
+export async function auditAccessibility(
+  element: Element,
+  options: AccessibilityOptions = {},
+): Promise<AccessibilityViolation[]> {
+  const { rules = {}, impact = 'minor' } = options;
+  const context = screen.getStage(element)?.stage ?? element;
+  const win: any = element.ownerDocument.defaultView ?? globalThis;
+
+  // mock-doc's elements are not instances of its `Node`, which axe-core checks throughout
+  if (!(context instanceof win.Node)) {
+    throw new Error(
+      "toBeAccessible() can't audit mock-doc's DOM. Run the test with jsdom, happy-dom or in browser mode",
+    );
+  }
+
+  const axe = await loadAxe(win);
+
+  const enabled = { ...STAGE_RULES, ...(isBrowserMode() ? {} : LAYOUT_RULES), ...rules };
+  const results = await axe.run(context, {
+    elementRef: true,
+    resultTypes: ['violations'],
+    rules: Object.fromEntries(Object.entries(enabled).map(([id, on]) => [id, { enabled: on }])),
+  });
+
+  const threshold = IMPACTS.indexOf(impact);
+  return (results.violations as AccessibilityViolation[]).filter(
+    (violation) => IMPACTS.indexOf(violation.impact) >= threshold,
+  );
+}
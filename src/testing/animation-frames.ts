@@ -0,0 +1,88 @@
+/**
+ * Controllable animation frames
+ *
+ * The node DOM environments run `requestAnimationFrame` callbacks through a scheduler
+ * (see `setup/animation-frames.ts`). These helpers let tests take over that scheduler
+ * and step RAF-driven animations and transitions frame by frame.
+ */
+
+import { ANIMATION_FRAMES_GLOBAL } from '../environments/types.js';
+import type { AnimationFrameScheduler } from '../setup/animation-frames.js';
+
+/**
+ * Fake animation frame options
+ */
+export interface FakeAnimationFramesOptions {
+  /**
+   * Milliseconds the frame clock (and `performance.now()`) moves on each frame
+   * @default 16
+   */
+  frameDuration?: number;
+}
+
+function getScheduler(): AnimationFrameScheduler | undefined {
+  const g = globalThis as any;
+  return g[ANIMATION_FRAMES_GLOBAL] ?? g.window?.[ANIMATION_FRAMES_GLOBAL];
+}
+
+function requireScheduler(name: string): AnimationFrameScheduler {
+  const scheduler = getScheduler();
+  if (!scheduler) {
+    throw new Error(`${name}() is only available in the mock-doc, jsdom and happy-dom environments`);
+  }
+  return scheduler;
+}
+
+/**
+ * Stop running animation frames automatically. Frames only run when the test calls
+ * `advanceFrames()` or `flushAnimationFrames()` (or `waitForChanges()`, which steps one frame per update cycle),
+ * and `performance.now()` reports the frame clock
+ *
+ * @example
+ * ```ts
+ * beforeEach(() => useFakeAnimationFrames());
+ * afterEach(() => useRealAnimationFrames());
+ * ```
+ */
+export function useFakeAnimationFrames(options: FakeAnimationFramesOptions = {}) {
+  const { frameDuration = 16 } = options;
+  requireScheduler('useFakeAnimationFrames').useFake(frameDuration);
+}
+
+/**
+ * Run animation frames automatically again and restore `performance.now()`. Callbacks still pending
+ * from the faked frames are dropped
+ */
+export function useRealAnimationFrames() {
+  getScheduler()?.useReal();
+}
+
+/**
+ * Check whether animation frames are controlled by the test
+ */
+export function isFakeAnimationFrames(): boolean {
+  return !!getScheduler()?.isFake();
+}
+
+/**
+ * Run the next `count` animation frames, calling the callbacks requested before each frame
+ */
+export function advanceFrames(count = 1) {
+  requireScheduler('advanceFrames').advance(count);
+}
+
+/**
+ * Run animation frames until no callbacks are pending, e.g. to finish an animation.
+ * Throws if callbacks are still being requested after `maxFrames` frames.
+ * Returns the number of frames run
+ */
+export function flushAnimationFrames(maxFrames = 1000): number {
+  return requireScheduler('flushAnimationFrames').flush(maxFrames);
+}
+
+/**
+ * Number of animation frame callbacks waiting for the next frame
+ */
+export function getPendingAnimationFrames(): number {
+  return requireScheduler('getPendingAnimationFrames').pending();
+}
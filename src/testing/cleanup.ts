@@ -0,0 +1,243 @@
+/**
+ * Automatic per-test cleanup of rendered stages
+ *
+ * Opt in from a setup file with `enableAutoCleanup()`, or with the `autoCleanup`
+ * option of the `stencil` environment. After each test every stage the test rendered
+ * is unmounted and possible leaks are reported. Stages rendered in `beforeAll()` are
+ * unmounted once the file's tests are done.
+ */
+
+import { afterAll, afterEach, beforeEach, expect } from 'vitest';
+import { AUTO_CLEANUP_GLOBAL } from '../environments/types.js';
+import { cleanup, cleanupTest, getTestStages } from './render.js';
+import { collectComponents, getHostRef } from './stencil-runtime.js';
+
+/**
+ * Auto-cleanup options
+ */
+export interface AutoCleanupOptions {
+  /**
+   * Warn about components whose `disconnectedCallback` did not run, and about event listeners,
+   * timers or elements left behind by the test
+   * @default true
+   */
+  reportLeaks?: boolean;
+}
+
+interface TrackedListener {
+  target: string;
+  type: string;
+  listener: any;
+  capture: boolean;
+}
+
+interface LeakTracker {
+  /**
+   * Stop tracking and return descriptions of anything left behind
+   */
+  stop: () => string[];
+}
+
+// Only one tracker is active at a time, even if auto-cleanup is enabled more than once
+let activeTracker: LeakTracker | undefined;
+
+/**
+ * Unmount the stages created by `render()` after each test, and those rendered in `beforeAll()` after the last one
+ *
+ * @example
+ * ```ts
+ * // vitest-setup.ts
+ * import { enableAutoCleanup } from '@johnjenkins/stencil-vitest';
+ *
+ * enableAutoCleanup();
+ * ```
+ */
+export function enableAutoCleanup(options: AutoCleanupOptions = {}) {
+  const { reportLeaks = true } = options;
+
+  beforeEach(() => {
+    if (reportLeaks && !activeTracker) {
+      activeTracker = trackLeaks();
+    }
+  });
+
+  afterEach(async () => {
+    const tracker = activeTracker;
+    activeTracker = undefined;
+
+    const components = getTestStages().flatMap((stage) => collectComponents(stage));
+    const disconnected = tracker ? components.map(watchDisconnect) : [];
+
+    cleanupTest();
+
+    if (!tracker) return;
+
+    // The lazy runtime disconnects instances that are still loading once they are ready
+    await Promise.resolve();
+
+    const leaks = [
+      ...components
+        .filter((_, i) => disconnected[i]?.() === false)
+        .map((elm) => `disconnectedCallback did not run for <${elm.tagName.toLowerCase()}>`),
+      ...tracker.stop(),
+    ];
+
+    if (leaks.length > 0) {
+      const testName = expect.getState().currentTestName;
+      console.warn(
+        `[stencil-vitest] Possible leaks after "${testName}":\n${leaks.map((leak) => `  - ${leak}`).join('\n')}`,
+      );
+    }
+  });
+
+  afterAll(() => {
+    cleanup();
+  });
+}
+
+/**
+ * Watch for a lazy-loaded component instance's `disconnectedCallback`.
+ * Returns a function reporting whether it ran, or `undefined` when the instance is not reachable
+ * (e.g. `dist-custom-elements` or production builds)
+ */
+function watchDisconnect(elm: any): (() => boolean) | undefined {
+  const instance = getHostRef(elm)?.$lazyInstance$;
+  if (!instance) return undefined;
+
+  let called = false;
+  const original = instance.disconnectedCallback;
+  instance.disconnectedCallback = function (...args: any[]) {
+    called = true;
+    return original?.apply(this, args);
+  };
+
+  return () => called;
+}
+
+/**
+ * Start recording event listeners on window/document, timers and elements added to document.body
+ */
+function trackLeaks(): LeakTracker {
+  const bodyChildren = new Set(Array.from(document.body.children));
+  const stopListeners = [trackListeners(window, 'window'), trackListeners(document, 'document')];
+  const stopTimers = trackTimers();
+
+  return {
+    stop() {
+      const listeners = stopListeners.flatMap((stop) => stop());
+      const timers = stopTimers();
+      const elements = Array.from(document.body.children).filter((child) => !bodyChildren.has(child));
+
+      return [
+        ...listeners.map(({ target, type }) => `event listener "${type}" left on ${target}`),
+        ...(timers.length > 0 ? [`${timers.length} timer(s) still pending: ${timers.join(', ')}`] : []),
+        ...(elements.length > 0
+          ? [
+              `elements left attached to document.body: ${elements
+                .map((elm) => `<${elm.tagName.toLowerCase()}>`)
+                .join(', ')}`,
+            ]
+          : []),
+      ];
+    },
+  };
+}
+
+/**
+ * Record listeners added to a target that have not been removed
+ */
+function trackListeners(target: any, name: string): () => TrackedListener[] {
+  const hadOwnAdd = Object.prototype.hasOwnProperty.call(target, 'addEventListener');
+  const hadOwnRemove = Object.prototype.hasOwnProperty.call(target, 'removeEventListener');
+  const originalAdd = target.addEventListener;
+  const originalRemove = target.removeEventListener;
+  const listeners: TrackedListener[] = [];
+
+  const isCapture = (options: any) => (typeof options === 'boolean' ? options : !!options?.capture);
+
+  target.addEventListener = function (type: string, listener: any, options?: any) {
+    // Listeners that remove themselves can't leak
+    if (listener && !options?.once && !options?.signal) {
+      listeners.push({ target: name, type, listener, capture: isCapture(options) });
+    }
+    return originalAdd.call(this, type, listener, options);
+  };
+  target.removeEventListener = function (type: string, listener: any, options?: any) {
+    const index = listeners.findIndex(
+      (tracked) => tracked.type === type && tracked.listener === listener && tracked.capture === isCapture(options),
+    );
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+    return originalRemove.call(this, type, listener, options);
+  };
+
+  return () => {
+    if (hadOwnAdd) target.addEventListener = originalAdd;
+    else delete target.addEventListener;
+    if (hadOwnRemove) target.removeEventListener = originalRemove;
+    else delete target.removeEventListener;
+    return listeners;
+  };
+}
+
+/**
+ * Record intervals and delayed timeouts that are still pending.
+ * Zero-delay timeouts are left out, they are how the DOM environments schedule animation frames
+ */
+function trackTimers(): () => string[] {
+  const g = globalThis as any;
+  const originalSetTimeout = g.setTimeout;
+  const originalSetInterval = g.setInterval;
+  const originalClearTimeout = g.clearTimeout;
+  const originalClearInterval = g.clearInterval;
+  const pending = new Map<any, string>();
+
+  const trackedSetTimeout = (handler: any, delay?: number, ...args: any[]) => {
+    const id = originalSetTimeout(
+      (...handlerArgs: any[]) => {
+        pending.delete(id);
+        return typeof handler === 'function' ? handler(...handlerArgs) : undefined;
+      },
+      delay,
+      ...args,
+    );
+    if (delay && delay > 0) {
+      pending.set(id, `setTimeout(${delay}ms)`);
+    }
+    return id;
+  };
+  const trackedSetInterval = (handler: any, delay?: number, ...args: any[]) => {
+    const id = originalSetInterval(handler, delay, ...args);
+    pending.set(id, `setInterval(${delay ?? 0}ms)`);
+    return id;
+  };
+  const trackedClearTimeout = (id: any) => {
+    pending.delete(id);
+    return originalClearTimeout(id);
+  };
+  const trackedClearInterval = (id: any) => {
+    pending.delete(id);
+    return originalClearInterval(id);
+  };
+
+  g.setTimeout = trackedSetTimeout;
+  g.setInterval = trackedSetInterval;
+  g.clearTimeout = trackedClearTimeout;
+  g.clearInterval = trackedClearInterval;
+
+  return () => {
+    // Leave the globals alone if something else (e.g. fake timers) has replaced them since
+    if (g.setTimeout === trackedSetTimeout) g.setTimeout = originalSetTimeout;
+    if (g.setInterval === trackedSetInterval) g.setInterval = originalSetInterval;
+    if (g.clearTimeout === trackedClearTimeout) g.clearTimeout = originalClearTimeout;
+    if (g.clearInterval === trackedClearInterval) g.clearInterval = originalClearInterval;
+    return Array.from(pending.values());
+  };
+}
+
+// Auto-enable when requested by the `stencil` environment
+const environmentOptions = (globalThis as any)[AUTO_CLEANUP_GLOBAL];
+if (environmentOptions) {
+  enableAutoCleanup(environmentOptions === true ? {} : environmentOptions);
+}
@@ -0,0 +1,313 @@
+/**
+ * Event spies
+ *
+ * Record the events dispatched on an element, shadow root, `window` or `document`, or wait for one.
+ * Spies (and event timelines) on a stage are removed when the stage is unmounted, and every spy is removed by `cleanup()`.
+ */
+
+import type { EventSpy, EventTimeline, SpyOnEventOptions, WaitForEventOptions } from '../types.js';
+
+// Captured up front so `waitForEvent()` timeouts still elapse when a test fakes timers
+const schedule = globalThis.setTimeout;
+const unschedule = globalThis.clearTimeout;
+
+interface ActiveSpy {
+  spy: EventSpy<any> | EventTimeline<any>;
+  target: EventTarget;
+  /**
+   * Identifies `spyOnEvent()` spies, which are reused for the same event name and options
+   */
+  key?: string;
+}
+
+// Spies that are still listening
+const activeSpies = new Set<ActiveSpy>();
+
+/**
+ * Check whether a node is a stage or inside it, crossing shadow roots
+ */
+function isInStage(node: any, stage: Node): boolean {
+  let current = node;
+  while (current) {
+    if (current === stage) return true;
+    current = current.parentNode ?? current.host;
+  }
+  return false;
+}
+
+/**
+ * Add a received event to a spy or timeline
+ */
+function receive<E extends Event>(spy: EventSpy<E> | EventTimeline<E>, event: E) {
+  spy.events.push(event);
+  spy.length = spy.events.length;
+  spy.lastEvent = event;
+  if (spy.length === 1) {
+    spy.firstEvent = event;
+  }
+}
+
+/**
+ * Spy on an event dispatched on an element, shadow root, `window` or `document`.
+ * Calling it again with the same event name and options returns the existing spy while it is listening
+ *
+ * @example
+ * ```ts
+ * const clickSpy = spyOnEvent(root, 'buttonClick');
+ * const keySpy = spyOnEvent(document, 'keydown', { capture: true });
+ * ```
+ */
+export function spyOnEvent<E extends Event = CustomEvent>(
+  target: EventTarget,
+  eventName: string,
+  options: SpyOnEventOptions = {},
+): EventSpy<E> {
+  const { capture = false, once = false } = options;
+
+  const key = `${eventName}:${capture}:${once}`;
+  const existing = Array.from(activeSpies).find((active) => active.target === target && active.key === key);
+  if (existing) return existing.spy as EventSpy<E>;
+
+  const listener = (event: Event) => {
+    receive(spy, event as E);
+    if (once) {
+      spy.dispose();
+    }
+  };
+
+  const spy: EventSpy<E> = {
+    eventName,
+    events: [],
+    firstEvent: undefined,
+    lastEvent: undefined,
+    length: 0,
+    reset() {
+      spy.events = [];
+      spy.firstEvent = undefined;
+      spy.lastEvent = undefined;
+      spy.length = 0;
+    },
+    dispose() {
+      target.removeEventListener(eventName, listener, { capture });
+      activeSpies.delete(active);
+    },
+  };
+
+  const active: ActiveSpy = { spy, target, key };
+  target.addEventListener(eventName, listener, { capture });
+  activeSpies.add(active);
+  return spy;
+}
+
+/**
+ * Record several events on an element, shadow root, `window` or `document` into a single ordered timeline,
+ * e.g. to check that a combobox emits `focus`, `input`, `change` and `open` in that order
+ *
+ * @example
+ * ```ts
+ * const timeline = recordEvents(root, ['comboFocus', 'comboInput', 'comboOpen']);
+ * // interact...
+ * expect(timeline).toHaveEmittedInOrder(['comboFocus', 'comboOpen']);
+ * expect(timeline).toMatchSnapshot();
+ * ```
+ */
+export function recordEvents<E extends Event = CustomEvent>(
+  target: EventTarget,
+  eventNames: string[],
+  options: Pick<SpyOnEventOptions, 'capture'> = {},
+): EventTimeline<E> {
+  const { capture = false } = options;
+  const names = Array.from(new Set(eventNames));
+
+  const listener = (event: Event) => {
+    timeline.entries.push({
+      eventName: event.type,
+      event: event as E,
+      detail: (event as CustomEvent).detail,
+      timestamp: performance.now(),
+    });
+    receive(timeline, event as E);
+  };
+
+  const timeline: EventTimeline<E> = {
+    eventNames: names,
+    entries: [],
+    events: [],
+    firstEvent: undefined,
+    lastEvent: undefined,
+    length: 0,
+    reset() {
+      timeline.entries = [];
+      timeline.events = [];
+      timeline.firstEvent = undefined;
+      timeline.lastEvent = undefined;
+      timeline.length = 0;
+    },
+    dispose() {
+      names.forEach((name) => target.removeEventListener(name, listener, { capture }));
+      activeSpies.delete(active);
+    },
+  };
+
+  const active: ActiveSpy = { spy: timeline, target };
+  names.forEach((name) => target.addEventListener(name, listener, { capture }));
+  activeSpies.add(active);
+  return timeline;
+}
+
+/**
+ * Dispose the spies listening on a stage or anything inside it.
+ * Without a stage, every spy is disposed
+ */
+export function disposeEventSpies(stage?: Node) {
+  activeSpies.forEach(({ spy, target }) => {
+    if (!stage || isInStage(target, stage)) {
+      spy.dispose();
+    }
+  });
+}
+
+/**
+ * Describe an event target for error messages
+ */
+function describeTarget(target: any): string {
+  if (target === globalThis || target === (globalThis as any).window) return 'window';
+  if (target?.nodeType === 9) return 'document';
+  if (target?.nodeType === 11 && target.host) return `the shadow root of <${target.host.tagName.toLowerCase()}>`;
+  return target?.tagName ? `<${target.tagName.toLowerCase()}>` : String(target);
+}
+
+/**
+ * Describe an event for error messages, with its detail if it has one
+ */
+function describeEvent(event: Event): string {
+  const detail = (event as CustomEvent).detail;
+  if (detail === undefined || detail === null) return event.type;
+  try {
+    return `${event.type} ${JSON.stringify(detail)}`;
+  } catch {
+    return `${event.type} ${String(detail)}`;
+  }
+}
+
+interface DispatchRecording {
+  recorders: Set<(event: Event) => void>;
+  restore: () => void;
+}
+
+// Targets whose `dispatchEvent` is wrapped while `waitForEvent()` calls record what is dispatched on them
+const dispatchRecordings = new WeakMap<EventTarget, DispatchRecording>();
+
+/**
+ * Pass every event dispatched on a target to `record` until the returned function is called.
+ * Recordings on the same target share one `dispatchEvent` wrapper, which is removed with the last of them
+ */
+function recordDispatches(target: EventTarget, record: (event: Event) => void): () => void {
+  let recording = dispatchRecordings.get(target);
+  if (!recording) {
+    const hadOwnDispatch = Object.prototype.hasOwnProperty.call(target, 'dispatchEvent');
+    const dispatch = target.dispatchEvent;
+    const recorders = new Set<(event: Event) => void>();
+
+    target.dispatchEvent = function (event: Event) {
+      recorders.forEach((recorder) => recorder(event));
+      return dispatch.call(this, event);
+    };
+    recording = {
+      recorders,
+      restore: () => {
+        if (hadOwnDispatch) target.dispatchEvent = dispatch;
+        else delete (target as any).dispatchEvent;
+      },
+    };
+    dispatchRecordings.set(target, recording);
+  }
+
+  const { recorders, restore } = recording;
+  recorders.add(record);
+  return () => {
+    recorders.delete(record);
+    if (recorders.size === 0 && dispatchRecordings.get(target) === recording) {
+      dispatchRecordings.delete(target);
+      restore();
+    }
+  };
+}
+
+/**
+ * Wait for an event to be dispatched on an element, shadow root, `window` or `document`.
+ * Resolves with the event, or with the first one whose detail matches the predicate.
+ * Rejects after the timeout, listing the events that were dispatched on the target while waiting
+ *
+ * @example
+ * ```ts
+ * const change = waitForEvent(root, 'valueChange', { predicate: (detail) => detail === 'hello' });
+ * input.value = 'hello';
+ * input.dispatchEvent(new Event('input'));
+ * expect((await change).detail).toBe('hello');
+ * ```
+ */
+export function waitForEvent<E extends Event = CustomEvent>(
+  target: EventTarget,
+  eventName: string,
+  options: WaitForEventOptions<E> = {},
+): Promise<E> {
+  const { timeout = 1000, predicate } = options;
+
+  return new Promise<E>((resolve, reject) => {
+    // Events dispatched directly on the target, and matching events bubbling up to it, for the timeout message
+    const fired: { event: Event; rejected: boolean }[] = [];
+
+    const stopRecording = recordDispatches(target, (event) => {
+      // Some DOM implementations dispatch the same event on the target again for each phase
+      if (!fired.some((entry) => entry.event === event)) {
+        fired.push({ event, rejected: false });
+      }
+    });
+
+    const finish = () => {
+      unschedule(timer);
+      target.removeEventListener(eventName, listener);
+      stopRecording();
+    };
+
+    const listener = (event: Event) => {
+      let matches: boolean;
+      try {
+        matches = !predicate || predicate((event as CustomEvent).detail, event as E);
+      } catch (e) {
+        finish();
+        reject(e);
+        return;
+      }
+
+      const entry = fired.find((f) => f.event === event);
+      if (!entry) fired.push({ event, rejected: !matches });
+      else entry.rejected = !matches;
+
+      if (matches) {
+        finish();
+        resolve(event as E);
+      }
+    };
+
+    const timer = schedule(() => {
+      finish();
+
+      const name = describeTarget(target);
+      const waitingFor = `"${eventName}"${predicate ? ' matching the predicate' : ''} on ${name}`;
+      const events =
+        fired.length > 0
+          ? `Events dispatched on ${name} while waiting:\n${fired
+              .map(
+                ({ event, rejected }, i) =>
+                  `  ${i + 1}. ${describeEvent(event)}${rejected ? ' (did not match the predicate)' : ''}`,
+              )
+              .join('\n')}`
+          : `No events were dispatched on ${name} while waiting`;
+      reject(new Error(`waitForEvent() timed out after ${timeout}ms waiting for ${waitingFor}. ${events}`));
+    }, timeout);
+
+    target.addEventListener(eventName, listener);
+  });
+}
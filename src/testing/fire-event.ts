@@ -0,0 +1,125 @@
+/**
+ * Low-level event dispatch
+ *
+ * `fireEvent` dispatches a single event, built with the constructor and the `bubbles`/`cancelable`/`composed`
+ * defaults a browser would use for that event type, in whichever DOM the tests run in. Unlike `userEvent` it
+ * fires only the one event, with no focus changes or default actions, and does not wait for re-renders.
+ */
+
+import type { FireEventInit } from '../types.js';
+
+interface EventConfig {
+  type: string;
+  /**
+   * Constructors to try, in order. `Event` is the fallback when the DOM provides none of them
+   */
+  constructors: string[];
+  init: EventInit;
+}
+
+const MOUSE = ['MouseEvent'];
+const POINTER = ['PointerEvent', 'MouseEvent'];
+const FOCUS = ['FocusEvent'];
+const KEYBOARD = ['KeyboardEvent'];
+const INPUT = ['InputEvent'];
+
+const UI_INIT: EventInit = { bubbles: true, cancelable: true, composed: true };
+const BOUNDARY_INIT: EventInit = { bubbles: false, cancelable: false, composed: true };
+
+const EVENTS = {
+  click: { type: 'click', constructors: POINTER, init: UI_INIT },
+  dblClick: { type: 'dblclick', constructors: MOUSE, init: UI_INIT },
+  contextMenu: { type: 'contextmenu', constructors: POINTER, init: UI_INIT },
+  mouseDown: { type: 'mousedown', constructors: MOUSE, init: UI_INIT },
+  mouseUp: { type: 'mouseup', constructors: MOUSE, init: UI_INIT },
+  mouseMove: { type: 'mousemove', constructors: MOUSE, init: UI_INIT },
+  mouseOver: { type: 'mouseover', constructors: MOUSE, init: UI_INIT },
+  mouseOut: { type: 'mouseout', constructors: MOUSE, init: UI_INIT },
+  mouseEnter: { type: 'mouseenter', constructors: MOUSE, init: BOUNDARY_INIT },
+  mouseLeave: { type: 'mouseleave', constructors: MOUSE, init: BOUNDARY_INIT },
+  pointerDown: { type: 'pointerdown', constructors: POINTER, init: UI_INIT },
+  pointerUp: { type: 'pointerup', constructors: POINTER, init: UI_INIT },
+  pointerMove: { type: 'pointermove', constructors: POINTER, init: UI_INIT },
+  pointerOver: { type: 'pointerover', constructors: POINTER, init: UI_INIT },
+  pointerOut: { type: 'pointerout', constructors: POINTER, init: UI_INIT },
+  pointerEnter: { type: 'pointerenter', constructors: POINTER, init: BOUNDARY_INIT },
+  pointerLeave: { type: 'pointerleave', constructors: POINTER, init: BOUNDARY_INIT },
+  keyDown: { type: 'keydown', constructors: KEYBOARD, init: UI_INIT },
+  keyUp: { type: 'keyup', constructors: KEYBOARD, init: UI_INIT },
+  focus: { type: 'focus', constructors: FOCUS, init: BOUNDARY_INIT },
+  blur: { type: 'blur', constructors: FOCUS, init: BOUNDARY_INIT },
+  focusIn: { type: 'focusin', constructors: FOCUS, init: { bubbles: true, cancelable: false, composed: true } },
+  focusOut: { type: 'focusout', constructors: FOCUS, init: { bubbles: true, cancelable: false, composed: true } },
+  beforeInput: { type: 'beforeinput', constructors: INPUT, init: UI_INIT },
+  input: { type: 'input', constructors: INPUT, init: { bubbles: true, cancelable: false, composed: true } },
+  change: { type: 'change', constructors: [], init: { bubbles: true, cancelable: false, composed: false } },
+  submit: { type: 'submit', constructors: ['SubmitEvent'], init: { bubbles: true, cancelable: true, composed: false } },
+  reset: { type: 'reset', constructors: [], init: { bubbles: true, cancelable: true, composed: false } },
+  invalid: { type: 'invalid', constructors: [], init: { bubbles: false, cancelable: true, composed: false } },
+  scroll: { type: 'scroll', constructors: [], init: { bubbles: false, cancelable: false, composed: false } },
+};
+
+type EventHelpers = { [K in keyof typeof EVENTS]: (element: EventTarget, init?: FireEventInit) => boolean };
+
+/**
+ * Create an event with the first constructor the DOM implementation provides, falling back to `Event`
+ */
+export function createEvent(type: string, init: Record<string, any>, ...constructors: string[]): Event {
+  const view: any = document.defaultView ?? globalThis;
+  const EventConstructor = constructors.map((name) => view[name]).find((c) => typeof c === 'function') ?? view.Event;
+  return new EventConstructor(type, init);
+}
+
+/**
+ * Build an event from its defaults and the caller's init. Fields the constructor does not take
+ * (such as `detail` on a plain `Event`) are still set on the event, so every DOM sees the same shape
+ */
+function buildEvent({ type, constructors, init }: EventConfig, { target: _target, ...eventInit }: FireEventInit) {
+  const event: any = createEvent(type, { ...init, ...eventInit }, ...constructors);
+  Object.entries(eventInit).forEach(([key, value]) => {
+    if (!(key in event)) {
+      Object.defineProperty(event, key, { value, configurable: true, enumerable: true });
+    }
+  });
+  return event as Event;
+}
+
+/**
+ * Dispatch an event on an element, returning `false` when a listener called `preventDefault()`
+ */
+function dispatch(element: EventTarget, event: Event): boolean {
+  if (!element) {
+    throw new Error(`fireEvent() was given no element to dispatch "${event.type}" on`);
+  }
+  element.dispatchEvent(event);
+  return !event.defaultPrevented;
+}
+
+const helpers = Object.fromEntries(
+  Object.entries(EVENTS).map(([name, config]) => [
+    name,
+    (element: EventTarget, init: FireEventInit = {}) => {
+      if (init.target) {
+        Object.assign(element, init.target);
+      }
+      return dispatch(element, buildEvent(config, init));
+    },
+  ]),
+) as EventHelpers;
+
+/**
+ * Dispatch a single event. `fireEvent(element, event)` dispatches an event you built; `fireEvent.click()`,
+ * `fireEvent.keyDown()`, `fireEvent.input()` and the other helpers build it with the same constructor and
+ * defaults as a browser. `target` in the init sets properties on the element first.
+ * Returns `false` when a listener prevented the default action. Follow with `waitForChanges()` to let
+ * components re-render
+ *
+ * @example
+ * ```ts
+ * fireEvent.keyDown(input, { key: 'Enter' });
+ * fireEvent.input(input, { target: { value: 'hello' } });
+ * fireEvent(root, new CustomEvent('refresh', { bubbles: true }));
+ * await waitForChanges();
+ * ```
+ */
+export const fireEvent = Object.assign(dispatch, helpers);
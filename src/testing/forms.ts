@@ -0,0 +1,249 @@
+/**
+ * Form participation
+ *
+ * `getFormData()` collects what a form would submit, including the values form-associated components set
+ * with `ElementInternals.setFormValue()`, and `submitForm()` validates and submits a form without navigating.
+ * Both work the same in the node DOMs (through the `ElementInternals` installed by the setups) and in browsers.
+ */
+
+import { ELEMENT_INTERNALS_GLOBAL } from '../environments/types.js';
+import type { ElementInternalsRegistry, FormValue } from '../setup/element-internals.js';
+import { createEvent } from './fire-event.js';
+import { waitForChanges } from './render.js';
+import { getHostRef, getInstance } from './stencil-runtime.js';
+
+const SUBMITTABLE = new Set(['button', 'input', 'select', 'textarea']);
+
+const BUTTON_TYPES = new Set(['button', 'image', 'reset', 'submit']);
+
+function getRegistry(): ElementInternalsRegistry | undefined {
+  const g = globalThis as any;
+  return g[ELEMENT_INTERNALS_GLOBAL] ?? g.window?.[ELEMENT_INTERNALS_GLOBAL];
+}
+
+function tagOf(elm: Element): string {
+  return elm.tagName.toLowerCase();
+}
+
+function inputType(elm: Element): string {
+  return (elm.getAttribute('type') ?? 'text').toLowerCase();
+}
+
+function isFormAssociated(elm: Element): boolean {
+  return !!(elm.constructor as any).formAssociated;
+}
+
+function isDisabled(elm: Element): boolean {
+  return elm.hasAttribute('disabled') || !!elm.closest('fieldset[disabled]');
+}
+
+/**
+ * Get the `ElementInternals` attached to a form-associated component. In browsers, where attached
+ * internals cannot be looked up, Stencil components are searched for the `@AttachInternals()` field
+ */
+function getInternals(elm: Element): ElementInternals | undefined {
+  const internals = getRegistry()?.get(elm);
+  if (internals || !getHostRef(elm)) return internals;
+
+  const view: any = elm.ownerDocument?.defaultView ?? globalThis;
+  if (typeof view.ElementInternals !== 'function') return undefined;
+  return Object.values(getInstance(elm)).find((value) => value instanceof view.ElementInternals) as
+    | ElementInternals
+    | undefined;
+}
+
+/**
+ * The form an element belongs to: the form its `form` attribute names, or its closest ancestor form
+ */
+function formOwner(elm: Element): HTMLFormElement | null {
+  const formId = elm.getAttribute('form');
+  if (formId !== null) {
+    const form = (elm.getRootNode() as Document).getElementById?.(formId);
+    return form?.tagName === 'FORM' ? (form as HTMLFormElement) : null;
+  }
+  return elm.closest('form');
+}
+
+/**
+ * Compare nodes by identity. happy-dom hands out a proxy for forms found through queries, but the form
+ * itself when walking up from its descendants
+ */
+function isSameNode(node: Node | null, other: Node): boolean {
+  return node === other || !!node?.isSameNode(other) || other.isSameNode(node);
+}
+
+/**
+ * The controls and form-associated components that belong to a form, in document order
+ */
+function listedElements(form: HTMLFormElement): Element[] {
+  const root = form.getRootNode() as Document | ShadowRoot;
+  return Array.from(root.querySelectorAll('*')).filter(
+    (elm) => (SUBMITTABLE.has(tagOf(elm)) || isFormAssociated(elm)) && isSameNode(formOwner(elm), form),
+  );
+}
+
+function controlValue(elm: Element): string {
+  return String((elm as HTMLInputElement).value ?? elm.getAttribute('value') ?? elm.textContent ?? '');
+}
+
+function selectedValues(select: Element): string[] {
+  const options = Array.from(select.querySelectorAll('option'));
+  const selected = options.filter((option: any) => option.selected ?? option.hasAttribute('selected'));
+  if (selected.length === 0 && !select.hasAttribute('multiple') && options.length > 0) {
+    selected.push(options[0]);
+  }
+  return selected.map((option) => option.getAttribute('value') ?? option.textContent ?? '');
+}
+
+/**
+ * The entries a native control adds to its form's data set
+ */
+function controlEntries(elm: Element, submitter: Element | null): [string, string][] {
+  const name = elm.getAttribute('name');
+  if (!name) return [];
+
+  const tag = tagOf(elm);
+  if (tag === 'select') {
+    return selectedValues(elm).map((value) => [name, value]);
+  }
+  if (tag === 'button' || (tag === 'input' && BUTTON_TYPES.has(inputType(elm)))) {
+    return elm === submitter ? [[name, controlValue(elm)]] : [];
+  }
+  if (tag === 'input' && (inputType(elm) === 'checkbox' || inputType(elm) === 'radio')) {
+    return (elm as HTMLInputElement).checked ? [[name, elm.getAttribute('value') ?? 'on']] : [];
+  }
+  if (tag === 'input' && inputType(elm) === 'file') {
+    return [];
+  }
+  return [[name, controlValue(elm)]];
+}
+
+/**
+ * The value a form-associated component set with `setFormValue()`. In browsers it is read back from
+ * its form, so the element must have a `name` and belong to a form
+ */
+function associatedValue(elm: Element): FormValue | undefined {
+  const value = getRegistry()?.formValue(elm);
+  if (value !== undefined) return value;
+
+  const form = getInternals(elm)?.form;
+  const name = elm.getAttribute('name');
+  if (!form || !name) return undefined;
+
+  const values = new FormData(form).getAll(name);
+  return values.length === 0 ? null : (values[0] as FormValue);
+}
+
+/**
+ * The value an element contributes to its form: a form-associated component's `setFormValue()` value,
+ * or a native control's value (`null` for an unchecked checkbox or radio)
+ */
+export function formValueOf(elm: Element): FormValue | undefined {
+  if (isFormAssociated(elm)) {
+    return associatedValue(elm);
+  }
+  if (tagOf(elm) === 'input' && (inputType(elm) === 'checkbox' || inputType(elm) === 'radio')) {
+    return (elm as HTMLInputElement).checked ? (elm.getAttribute('value') ?? 'on') : null;
+  }
+  if (tagOf(elm) === 'select') {
+    return selectedValues(elm)[0] ?? null;
+  }
+  return SUBMITTABLE.has(tagOf(elm)) ? controlValue(elm) : undefined;
+}
+
+/**
+ * The validity of a native control or form-associated component. DOMs without constraint validation
+ * (mock-doc) only report `valueMissing` for `required` controls
+ */
+export function validityOf(elm: Element): ValidityState | undefined {
+  if (isFormAssociated(elm)) {
+    return getInternals(elm)?.validity;
+  }
+  const validity = (elm as HTMLInputElement).validity;
+  if (validity || !SUBMITTABLE.has(tagOf(elm))) return validity;
+
+  const valueMissing = elm.hasAttribute('required') && !isDisabled(elm) && !formValueOf(elm);
+  return { valueMissing, valid: !valueMissing } as ValidityState;
+}
+
+/**
+ * Check an element's validity, firing `invalid` on it when it fails
+ */
+function checkValidity(elm: Element): boolean {
+  if (isDisabled(elm)) return true;
+
+  const target: any = isFormAssociated(elm) ? getInternals(elm) : elm;
+  if (typeof target?.checkValidity === 'function') {
+    return target.checkValidity();
+  }
+
+  if (validityOf(elm)?.valid === false) {
+    elm.dispatchEvent(createEvent('invalid', { bubbles: false, cancelable: true }));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Collect the data a form would submit: named native controls and the values form-associated components
+ * set with `ElementInternals.setFormValue()`, in document order. Disabled controls are left out, and buttons
+ * only count as the `submitter`
+ *
+ * @example
+ * ```ts
+ * const { root } = await render(html`<form><my-checkbox name="terms" checked></my-checkbox></form>`);
+ * expect(getFormData(root as HTMLFormElement).get('terms')).toBe('on');
+ * ```
+ */
+export function getFormData(form: HTMLFormElement, submitter: HTMLElement | null = null): FormData {
+  const view: any = form.ownerDocument?.defaultView;
+  const data: FormData = new (view?.FormData ?? FormData)();
+
+  listedElements(form)
+    .filter((elm) => !isDisabled(elm))
+    .forEach((elm) => {
+      if (!isFormAssociated(elm)) {
+        controlEntries(elm, submitter).forEach(([name, value]) => data.append(name, value));
+        return;
+      }
+
+      const value = associatedValue(elm);
+      const name = elm.getAttribute('name');
+      if (value instanceof FormData || (view?.FormData && value instanceof view.FormData)) {
+        (value as FormData).forEach((entry, key) => data.append(key, entry));
+      } else if (name && value !== null && value !== undefined) {
+        data.append(name, value);
+      }
+    });
+  return data;
+}
+
+/**
+ * Submit a form the way a submit button would, without navigating: validate its controls and
+ * form-associated components (firing `invalid` on those that fail, unless the form has `novalidate`),
+ * then fire `submit`. Resolves with the submitted data once components have re-rendered, or with `null`
+ * when validation failed or a listener prevented the submission
+ *
+ * @example
+ * ```ts
+ * const data = await submitForm(form);
+ * expect(data?.get('email')).toBe('ada@example.com');
+ * ```
+ */
+export async function submitForm(
+  form: HTMLFormElement,
+  submitter: HTMLElement | null = null,
+): Promise<FormData | null> {
+  const validate = !form.hasAttribute('novalidate') && !submitter?.hasAttribute('formnovalidate');
+  // Every control is checked, so each invalid one receives `invalid`
+  const valid = !validate || listedElements(form).filter((elm) => !checkValidity(elm)).length === 0;
+
+  let submitted = false;
+  if (valid) {
+    const event = createEvent('submit', { bubbles: true, cancelable: true, submitter }, 'SubmitEvent');
+    form.dispatchEvent(event);
+    submitted = !event.defaultPrevented;
+  }
+  await waitForChanges();
+  return submitted ? getFormData(form, submitter) : null;
+}
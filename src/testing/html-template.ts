@@ -0,0 +1,196 @@
+/**
+ * Tagged-template HTML fixtures
+ *
+ * Lets tests describe markup without JSX, with lit-style bindings for values
+ * that cannot be expressed as attributes:
+ * - `.prop=${value}` sets a property
+ * - `@event=${handler}` adds an event listener
+ * - `?attr=${bool}` toggles a boolean attribute
+ */
+
+import type { TemplateResult } from '../types.js';
+
+type BindingKind = '.' | '@' | '?';
+
+interface Binding {
+  kind: BindingKind;
+  name: string;
+  value: any;
+}
+
+/**
+ * Marker attribute left in the markup where a binding needs to be applied
+ */
+const BINDING_ATTR = 'stencil-vitest-binding-';
+
+const bindingPattern = /([.@?])([^\s"'>/=]+)\s*=\s*(["']?)$/;
+const attributePattern = /[^\s"'>/=]+\s*=\s*(["']?)$/;
+
+/**
+ * Tagged template for writing HTML fixtures
+ *
+ * @example
+ * ```ts
+ * await render(html`
+ *   <my-card .items=${[1, 2, 3]} @cardClick=${onClick} ?interactive=${true} card-title=${title}></my-card>
+ * `);
+ * ```
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): TemplateResult {
+  return { strings, values };
+}
+
+/**
+ * Check if a value was created by the `html` tagged template
+ */
+export function isTemplateResult(value: any): value is TemplateResult {
+  return !!value && typeof value === 'object' && Array.isArray(value.strings) && Array.isArray(value.values);
+}
+
+/**
+ * Parse an HTML string into detached nodes
+ */
+export function parseHtml(markup: string): Node[] {
+  const template = document.createElement('template');
+  template.innerHTML = markup;
+  return Array.from(template.content.childNodes);
+}
+
+/**
+ * Parse a template into detached nodes.
+ * Bindings are applied by calling `applyBindings()` once the nodes have been connected,
+ * so custom elements are already upgraded and receive properties before their first load
+ */
+export function instantiateTemplate(template: TemplateResult | string): { nodes: Node[]; applyBindings: () => void } {
+  const bindings: Binding[] = [];
+  const markup = typeof template === 'string' ? template : compileTemplate(template, bindings);
+  const nodes = parseHtml(markup.trim());
+
+  // Resolve marker attributes to their elements and strip them from the markup
+  const boundElements: [Element, Binding][] = [];
+  const collect = (node: Node) => {
+    if (node.nodeType !== 1) return;
+    const elm = node as Element;
+    const markers = Array.from(elm.attributes)
+      .map((attr) => attr.name)
+      .filter((name) => name.startsWith(BINDING_ATTR));
+    markers.forEach((name) => {
+      elm.removeAttribute(name);
+      boundElements.push([elm, bindings[Number(name.slice(BINDING_ATTR.length))]]);
+    });
+    Array.from(elm.childNodes).forEach(collect);
+  };
+  if (bindings.length > 0) {
+    nodes.forEach(collect);
+  }
+
+  const applyBindings = () => {
+    boundElements.forEach(([elm, { kind, name, value }]) => {
+      if (kind === '.') {
+        (elm as any)[name] = value;
+      } else if (kind === '@') {
+        elm.addEventListener(name, value);
+      } else if (value) {
+        elm.setAttribute(name, '');
+      } else {
+        elm.removeAttribute(name);
+      }
+    });
+  };
+
+  return { nodes, applyBindings };
+}
+
+/**
+ * Build the markup for a template, recording property, event and boolean bindings
+ */
+function compileTemplate(template: TemplateResult, bindings: Binding[]): string {
+  const { strings, values } = template;
+  let markup = '';
+  let closingQuote = '';
+
+  for (let i = 0; i < strings.length; i++) {
+    let str = strings[i];
+
+    // The quote closing a binding's value is not part of the markup
+    if (closingQuote && str.startsWith(closingQuote)) {
+      str = str.slice(1);
+    }
+    closingQuote = '';
+
+    if (i >= values.length) {
+      markup += str;
+      break;
+    }
+
+    const value = values[i];
+    const inTag = isInsideTag(markup + str);
+    const binding = inTag ? str.match(bindingPattern) : null;
+
+    // A prefix only starts a binding in attribute name position, not inside a quoted value like `href="/x?a=${id}"`
+    if (binding && !openQuote(markup + str.slice(0, -binding[0].length))) {
+      const [match, kind, name, quote] = binding;
+      markup += `${str.slice(0, -match.length)}${BINDING_ATTR}${bindings.length}`;
+      bindings.push({ kind: kind as BindingKind, name, value });
+      closingQuote = quote;
+    } else if (inTag) {
+      const attribute = openQuote(markup + str) ? null : str.match(attributePattern);
+      const text = escapeAttribute(value);
+      markup += str + (attribute && !attribute[1] ? `"${text}"` : text);
+    } else {
+      markup += str + compileChild(value, bindings);
+    }
+  }
+
+  return markup;
+}
+
+/**
+ * Build the markup for a value in a text position
+ */
+function compileChild(value: unknown, bindings: Binding[]): string {
+  if (value == null || value === false) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => compileChild(item, bindings)).join('');
+  }
+  if (isTemplateResult(value)) {
+    return compileTemplate(value, bindings);
+  }
+  return escapeText(String(value));
+}
+
+/**
+ * Check whether the end of the markup is inside an opening tag
+ */
+function isInsideTag(markup: string): boolean {
+  return markup.lastIndexOf('<') > markup.lastIndexOf('>');
+}
+
+/**
+ * The quote of the attribute value the end of the markup is inside, or an empty string
+ */
+function openQuote(markup: string): string {
+  let quote = '';
+  let previous = '';
+  for (const char of markup.slice(markup.lastIndexOf('<'))) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if ((char === '"' || char === "'") && previous === '=') {
+      quote = char;
+    }
+    if (!/\s/.test(char)) previous = char;
+  }
+  return quote;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: unknown): string {
+  return escapeText(String(value ?? ''))
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,263 @@
+/**
+ * Lifecycle hook recorder and render counter
+ *
+ * Enabled per stage with the `recordLifecycle` and `countRenders` render options.
+ * Every component rendered into such a stage (including components inside shadow roots)
+ * logs the lifecycle hooks Stencil calls on it, in order, whether or not the component
+ * implements them, and/or counts its `render()` calls.
+ *
+ * Hooks are wrapped as soon as Stencil registers a host element, before the component
+ * has connected, so nothing is missed. Registration is only intercepted while such a stage
+ * is mounted. Lazy (`dist`) builds record every hook, in development and production builds alike;
+ * `dist-custom-elements` builds record the `component*` hooks.
+ */
+
+import type { LifecycleHook } from '../types.js';
+
+const LIFECYCLE_HOOKS: LifecycleHook[] = [
+  'connectedCallback',
+  'disconnectedCallback',
+  'componentWillLoad',
+  'componentDidLoad',
+  'componentWillRender',
+  'componentDidRender',
+  'componentWillUpdate',
+  'componentDidUpdate',
+];
+
+// Stages rendered with `recordLifecycle: true`
+const recordingStages = new WeakSet<Node>();
+
+// Calls recorded for each component element, in order
+const lifecycleCalls = new WeakMap<Element, LifecycleHook[]>();
+
+// Stages rendered with `countRenders: true`
+const countingStages = new WeakSet<Node>();
+
+// `render()` calls counted for each component element
+const renderCounts = new WeakMap<Element, number>();
+
+const renderListeners = new Set<(elm: Element) => void>();
+
+// Listeners for each component's `render()` calls, keyed by the object Stencil calls it on
+const instanceRenderListeners = new WeakMap<object, Set<() => void>>();
+
+// Stages recording or counting that are still mounted. Host registration is intercepted while there are any
+const activeStages = new Set<Node>();
+
+// Puts back Stencil's host registration as it was before `installRecorder()`
+let uninstallRecorder: (() => void) | undefined;
+
+/**
+ * Record lifecycle hooks for every component rendered into a stage
+ */
+export function recordStageLifecycle(stage: HTMLElement) {
+  installRecorder();
+  activeStages.add(stage);
+  recordingStages.add(stage);
+}
+
+/**
+ * Get the lifecycle hooks called on a component element, in order.
+ * Returns `undefined` when the element was not rendered with `recordLifecycle: true`
+ */
+export function getLifecycleCalls(elm: Element): LifecycleHook[] | undefined {
+  return lifecycleCalls.get(elm);
+}
+
+/**
+ * Count `render()` calls for every component rendered into a stage
+ */
+export function countStageRenders(stage: HTMLElement) {
+  installRecorder();
+  activeStages.add(stage);
+  countingStages.add(stage);
+}
+
+/**
+ * Stop intercepting host registration for a stage that is unmounted. Components already rendered
+ * keep their wrapped hooks, so their calls and renders are still recorded
+ */
+export function releaseStage(stage: HTMLElement) {
+  if (!activeStages.delete(stage) || activeStages.size > 0) return;
+
+  uninstallRecorder?.();
+  uninstallRecorder = undefined;
+}
+
+/**
+ * Check whether renders are counted for a stage
+ */
+export function isCountingRenders(stage: HTMLElement): boolean {
+  return countingStages.has(stage);
+}
+
+/**
+ * Get the number of times a component element has rendered.
+ * Returns `undefined` when the element was not rendered with `countRenders: true`
+ */
+export function getRenderCount(elm: Element): number | undefined {
+  return renderCounts.get(elm);
+}
+
+/**
+ * Call a listener whenever a counted component renders. Returns a function removing the listener
+ */
+export function onRender(listener: (elm: Element) => void): () => void {
+  renderListeners.add(listener);
+  return () => renderListeners.delete(listener);
+}
+
+/**
+ * Check whether a node is inside one of the given stages, crossing shadow roots
+ */
+function isInStage(node: Node, stages: WeakSet<Node>): boolean {
+  let current: any = node;
+  while (current) {
+    if (stages.has(current)) return true;
+    current = current.parentNode ?? current.host;
+  }
+  return false;
+}
+
+/**
+ * Check whether an element is inside a stage rendered with `recordLifecycle: true`
+ */
+export function isInRecordingStage(elm: Element): boolean {
+  return isInStage(elm, recordingStages);
+}
+
+/**
+ * Check whether an element is inside a stage rendered with `countRenders: true`
+ */
+export function isInCountingStage(elm: Element): boolean {
+  return isInStage(elm, countingStages);
+}
+
+/**
+ * Log a hook call, once the element is known to belong to a recording stage.
+ * Elements stay recorded after they are removed so `disconnectedCallback` is logged
+ */
+function record(elm: Element, hook: LifecycleHook) {
+  let calls = lifecycleCalls.get(elm);
+  if (!calls) {
+    if (!isInStage(elm, recordingStages)) return;
+    calls = [];
+    lifecycleCalls.set(elm, calls);
+  }
+  calls.push(hook);
+}
+
+/**
+ * Count a render, once the element is known to belong to a counting stage
+ */
+function countRender(elm: Element) {
+  const count = renderCounts.get(elm);
+  if (count === undefined && !isInStage(elm, countingStages)) return;
+
+  renderCounts.set(elm, (count ?? 0) + 1);
+  renderListeners.forEach((listener) => listener(elm));
+}
+
+/**
+ * Wrap a component's `render()` method as an own property of the object Stencil calls it on, once,
+ * counting renders and calling the listeners added for it with `onInstanceRender()`
+ */
+function wrapRender(target: any, elm: Element): Set<() => void> | undefined {
+  const existing = instanceRenderListeners.get(target);
+  if (existing) return existing;
+
+  const original = target.render;
+  if (typeof original !== 'function') return undefined;
+
+  const listeners = new Set<() => void>();
+  target.render = function (...args: any[]) {
+    countRender(elm);
+    listeners.forEach((listener) => listener());
+    return original.apply(this, args);
+  };
+  instanceRenderListeners.set(target, listeners);
+  return listeners;
+}
+
+/**
+ * Call a listener whenever a component instance renders, whether or not its renders are counted
+ */
+export function onInstanceRender(instance: any, elm: Element, listener: () => void) {
+  wrapRender(instance, elm)?.add(listener);
+}
+
+/**
+ * Wrap lifecycle hooks as own properties of the object Stencil calls them on
+ */
+function wrapHooks(target: any, elm: Element, hooks: LifecycleHook[]) {
+  hooks.forEach((hook) => {
+    const original = target[hook];
+    target[hook] = function (...args: any[]) {
+      record(elm, hook);
+      return original?.apply(this, args);
+    };
+  });
+}
+
+/**
+ * Intercept Stencil registering host elements, which it does from the element constructor
+ * by assigning `__stencil__getHostRef`. Lazy builds assign the component instance to the host ref
+ * once its module has loaded. Production builds mangle the field it goes in, so the host ref is
+ * handed out behind a proxy that spots the instance by the `__stencil__getHostRef` Stencil gives it
+ */
+function installRecorder() {
+  if (uninstallRecorder) return;
+
+  const proto = HTMLElement.prototype;
+  const original = Object.getOwnPropertyDescriptor(proto, '__stencil__getHostRef');
+  uninstallRecorder = () => {
+    if (original) Object.defineProperty(proto, '__stencil__getHostRef', original);
+    else delete (proto as any).__stencil__getHostRef;
+  };
+
+  Object.defineProperty(proto, '__stencil__getHostRef', {
+    configurable: true,
+    set(this: HTMLElement, getHostRef: () => any) {
+      const elm = this;
+      const hostRef = getHostRef();
+      if (!hostRef || typeof hostRef !== 'object') {
+        Object.defineProperty(elm, '__stencil__getHostRef', { value: getHostRef, writable: true, configurable: true });
+        return;
+      }
+
+      // `dist-custom-elements`: the element is the instance. Its connected/disconnected callbacks are
+      // captured by the custom element registry, so only the component hooks can be wrapped
+      wrapHooks(
+        elm,
+        elm,
+        LIFECYCLE_HOOKS.filter((hook) => hook.startsWith('component')),
+      );
+      wrapRender(elm, elm);
+
+      // Lazy builds: trap the instance being registered on the host ref
+      const wrapped = new Set<object>();
+      const proxy: any = new Proxy(hostRef, {
+        set(target, key, value) {
+          if (
+            value &&
+            typeof value === 'object' &&
+            value !== elm &&
+            !wrapped.has(value) &&
+            value.__stencil__getHostRef?.() === proxy
+          ) {
+            wrapped.add(value);
+            wrapHooks(value, elm, LIFECYCLE_HOOKS);
+            wrapRender(value, elm);
+          }
+          return Reflect.set(target, key, value);
+        },
+      });
+      Object.defineProperty(elm, '__stencil__getHostRef', {
+        value: () => proxy,
+        writable: true,
+        configurable: true,
+      });
+    },
+  });
+}
@@ -5,8 +5,17 @@
  */
 
 import { expect } from 'vitest';
+import type { ExpectStatic } from 'vitest';
 import { serializeHtml, normalizeHtml, prettifyHtml } from './html-serializer.js';
-import type { EventSpy } from '../types.js';
+import { auditAccessibility, type AccessibilityViolation } from './accessibility.js';
+import { formValueOf, validityOf } from './forms.js';
+import { getLifecycleCalls, getRenderCount, isInCountingStage, isInRecordingStage } from './lifecycle.js';
+import { getWatchSpy } from './render.js';
+import type { AccessibilityOptions, EventSpy, EventTimeline, LifecycleHook, PropChange, WatchSpy } from '../types.js';
+import { VALIDITY_FLAGS, type FormValue, type ValidityFlag } from '../setup/element-internals.js';
+
+// `this` in matchers. Vitest does not export the type itself
+type MatcherContext = ThisParameterType<Parameters<ExpectStatic['extend']>[0][string]>;
 
 /**
  * Custom matchers interface
@@ -29,9 +38,20 @@ interface CustomMatchers<R = unknown> {
   toHaveReceivedEvent(): R;
   toHaveReceivedEventTimes(count: number): R;
   toHaveReceivedEventDetail(detail: any): R;
+  toHaveReceivedEventDetailMatching(partial: any): R;
   toHaveFirstReceivedEventDetail(detail: any): R;
   toHaveLastReceivedEventDetail(detail: any): R;
   toHaveNthReceivedEventDetail(index: number, detail: any): R;
+  toHaveCalledLifecycle(hook: LifecycleHook, times?: number): R;
+  toHaveLifecycleOrder(hooks: LifecycleHook[]): R;
+  toHaveRenderedTimes(count: number): R;
+  toHaveChangedProp(propName: string, oldValue?: any, newValue?: any): R;
+  toHaveEmittedInOrder(eventNames: string[]): R;
+  toHaveFormValue(value: FormValue): R;
+  toBeInvalid(validityKey?: ValidityFlag): R;
+  toHaveSlotted(slotName: string, selectorOrText?: string): R;
+  toHaveEmptySlot(slotName: string): R;
+  toBeAccessible(options?: AccessibilityOptions): Promise<R>;
 }
 
 // Extend Vitest types if available
@@ -42,6 +62,16 @@ declare global {
   }
 }
 
+// Vitest 3+ reads custom matcher types from the `vitest` module
+declare module 'vitest' {
+  interface Matchers<T = any> extends CustomMatchers<T> {}
+  // Declared on `Assertion` itself to take precedence over jest-dom's `toBeInvalid()`,
+  // which `@vitest/browser/matchers` adds without the validity key
+  interface Assertion<T = any> {
+    toBeInvalid(validityKey?: ValidityFlag): T;
+  }
+}
+
 /**
  * Check if element has a class
  */
@@ -458,28 +488,28 @@ function safeStringify(value: any): string {
 }
 
 /**
- * Safely compare two values, handling circular references
+ * Compare an event detail with the expected value like `toEqual()`, or like `toMatchObject()` when partial.
+ * Asymmetric matchers, Dates, Maps, DOM nodes and custom equality testers are supported
  */
-function safeEquals(a: any, b: any): boolean {
-  // Try JSON comparison first
-  try {
-    return JSON.stringify(a) === JSON.stringify(b);
-  } catch {
-    // If circular reference, fall back to shallow comparison
-    if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
-      const keysA = Object.keys(a);
-      const keysB = Object.keys(b);
-      if (keysA.length !== keysB.length) return false;
-      return keysA.every((key) => a[key] === b[key]);
-    }
-    return a === b;
-  }
+function detailEquals(context: MatcherContext, detail: any, expected: any, partial: boolean): boolean {
+  const { customTesters, utils } = context;
+  const testers = partial
+    ? [...customTesters, utils.iterableEquality, utils.subsetEquality]
+    : [...customTesters, utils.iterableEquality];
+  return context.equals(detail, expected, testers);
 }
 
 /**
- * Check if the last received event has the expected detail
+ * Match the detail of a received event, with a diff against the expected detail on failure
  */
-export function toHaveReceivedEventDetail(received: EventSpy, detail: any): { pass: boolean; message: () => string } {
+function matchEventDetail(
+  context: MatcherContext,
+  received: EventSpy,
+  index: number,
+  label: string,
+  expected: any,
+  partial = false,
+): { pass: boolean; message: () => string; actual?: any; expected?: any } {
   if (received.length === 0) {
     return {
       pass: false,
@@ -488,87 +518,573 @@ export function toHaveReceivedEventDetail(received: EventSpy, detail: any): { pa
     };
   }
 
-  const lastEvent = received.lastEvent!;
-  const pass = safeEquals(lastEvent.detail, detail);
+  if (index < 0 || index >= received.length) {
+    return {
+      pass: false,
+      message: () => `Expected event at index ${index}, but only ${received.length} events were received`,
+    };
+  }
+
+  const detail = received.events[index].detail;
+  const pass = detailEquals(context, detail, expected, partial);
+  const verb = partial ? 'match' : 'equal';
 
   return {
     pass,
+    actual: detail,
+    expected,
     message: () =>
       pass
-        ? `Expected last event detail not to equal ${safeStringify(detail)}`
-        : `Expected last event detail to equal ${safeStringify(detail)}, but got ${safeStringify(lastEvent.detail)}`,
+        ? `Expected ${label} detail not to ${verb} ${context.utils.stringify(expected)}`
+        : `Expected ${label} detail to ${verb} ${context.utils.stringify(expected)}\n\n${context.utils.diff(expected, detail) ?? `Received: ${context.utils.stringify(detail)}`}`,
   };
 }
 
+/**
+ * Check if the last received event has the expected detail
+ */
+export function toHaveReceivedEventDetail(
+  this: MatcherContext,
+  received: EventSpy,
+  detail: any,
+): { pass: boolean; message: () => string } {
+  return matchEventDetail(this, received, received.length - 1, 'last event', detail);
+}
+
+/**
+ * Check if the last received event's detail contains the expected properties, like `toMatchObject()`
+ */
+export function toHaveReceivedEventDetailMatching(
+  this: MatcherContext,
+  received: EventSpy,
+  partial: any,
+): { pass: boolean; message: () => string } {
+  return matchEventDetail(this, received, received.length - 1, 'last event', partial, true);
+}
+
 /**
  * Check if the first received event has the expected detail
  */
 export function toHaveFirstReceivedEventDetail(
+  this: MatcherContext,
   received: EventSpy,
   detail: any,
 ): { pass: boolean; message: () => string } {
-  if (received.length === 0) {
+  return matchEventDetail(this, received, 0, 'first event', detail);
+}
+
+/**
+ * Check if the last received event has the expected detail (alias for toHaveReceivedEventDetail)
+ */
+export function toHaveLastReceivedEventDetail(
+  this: MatcherContext,
+  received: EventSpy,
+  detail: any,
+): { pass: boolean; message: () => string } {
+  return toHaveReceivedEventDetail.call(this, received, detail);
+}
+
+/**
+ * Check if the event at a specific index has the expected detail
+ */
+export function toHaveNthReceivedEventDetail(
+  this: MatcherContext,
+  received: EventSpy,
+  index: number,
+  detail: any,
+): { pass: boolean; message: () => string } {
+  return matchEventDetail(this, received, index, `event at index ${index}`, detail);
+}
+
+/**
+ * Format a recorded event timeline for matcher messages
+ */
+function formatTimeline(timeline: EventTimeline<any>): string {
+  return timeline.entries.length > 0
+    ? timeline.entries
+        .map(
+          ({ eventName, detail }, i) => `  ${i + 1}. ${eventName}${detail == null ? '' : ` ${safeStringify(detail)}`}`,
+        )
+        .join('\n')
+    : '  (none)';
+}
+
+/**
+ * Check if an event timeline recorded the events in the given order.
+ * Other events may come in between
+ */
+export function toHaveEmittedInOrder(
+  received: EventTimeline<any>,
+  eventNames: string[],
+): { pass: boolean; message: () => string } {
+  if (!Array.isArray(received?.entries)) {
+    return {
+      pass: false,
+      message: () => 'toHaveEmittedInOrder() expects an event timeline created with `recordEvents()`',
+    };
+  }
+
+  const unrecorded = eventNames.filter((name) => !received.eventNames.includes(name));
+  if (unrecorded.length > 0) {
     return {
       pass: false,
       message: () =>
-        `Expected event "${received.eventName}" to have been received with detail, but no events were received`,
+        `The timeline does not record ${unrecorded.map((name) => `"${name}"`).join(', ')}. Recorded events: ${received.eventNames.join(', ')}`,
     };
   }
 
-  const firstEvent = received.firstEvent!;
-  const pass = safeEquals(firstEvent.detail, detail);
+  let matched = 0;
+  for (const { eventName } of received.entries) {
+    if (matched < eventNames.length && eventName === eventNames[matched]) {
+      matched++;
+    }
+  }
+  const pass = matched === eventNames.length;
 
   return {
     pass,
     message: () =>
       pass
-        ? `Expected first event detail not to equal ${safeStringify(detail)}`
-        : `Expected first event detail to equal ${safeStringify(detail)}, but got ${safeStringify(firstEvent.detail)}`,
+        ? `Expected events not to have been emitted in order [${eventNames.join(', ')}]`
+        : `Expected events to have been emitted in order [${eventNames.join(', ')}], but ${eventNames[matched]} was not emitted${matched > 0 ? ` after ${eventNames[matched - 1]}` : ''}. Timeline:\n${formatTimeline(received)}`,
   };
 }
 
 /**
- * Check if the last received event has the expected detail (alias for toHaveReceivedEventDetail)
+ * Describe the element a matcher was called on
  */
-export function toHaveLastReceivedEventDetail(
-  received: EventSpy,
-  detail: any,
+function describeElement(received: Element): string {
+  return received?.tagName ? `<${received.tagName.toLowerCase()}>` : String(received);
+}
+
+/**
+ * Format recorded lifecycle calls for matcher messages
+ */
+function formatLifecycleCalls(calls: LifecycleHook[]): string {
+  return calls.length > 0 ? calls.map((hook, i) => `  ${i + 1}. ${hook}`).join('\n') : '  (none)';
+}
+
+/**
+ * Message for elements whose lifecycle was not recorded. Inside a recording stage, that means
+ * the component's Stencil build could not be hooked into
+ */
+function notRecorded(received: Element): { pass: boolean; message: () => string } {
+  return {
+    pass: false,
+    message: () =>
+      isInRecordingStage(received)
+        ? `Lifecycle calls could not be recorded for ${describeElement(received)}: it was not registered with Stencil while its stage was mounted, or its build is not supported`
+        : `Lifecycle calls were not recorded for ${describeElement(received)}. Render it with \`recordLifecycle: true\``,
+  };
+}
+
+/**
+ * Check if a lifecycle hook was called on a component, optionally a specific number of times
+ */
+export function toHaveCalledLifecycle(
+  received: HTMLElement,
+  hook: LifecycleHook,
+  times?: number,
 ): { pass: boolean; message: () => string } {
-  return toHaveReceivedEventDetail(received, detail);
+  const calls = getLifecycleCalls(received);
+  if (!calls) {
+    return notRecorded(received);
+  }
+
+  const count = calls.filter((call) => call === hook).length;
+  const pass = times === undefined ? count > 0 : count === times;
+  const expected = times === undefined ? '' : ` ${times} times`;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to have called ${hook}${expected}`
+        : `Expected ${describeElement(received)} to have called ${hook}${expected}, but it was called ${count} times. Recorded calls:\n${formatLifecycleCalls(calls)}`,
+  };
 }
 
 /**
- * Check if the event at a specific index has the expected detail
+ * Check if lifecycle hooks were called on a component in the given order.
+ * Other calls may come in between
  */
-export function toHaveNthReceivedEventDetail(
-  received: EventSpy,
-  index: number,
-  detail: any,
+export function toHaveLifecycleOrder(
+  received: HTMLElement,
+  hooks: LifecycleHook[],
 ): { pass: boolean; message: () => string } {
-  if (received.length === 0) {
+  const calls = getLifecycleCalls(received);
+  if (!calls) {
+    return notRecorded(received);
+  }
+
+  let matched = 0;
+  for (const call of calls) {
+    if (matched < hooks.length && call === hooks[matched]) {
+      matched++;
+    }
+  }
+  const pass = matched === hooks.length;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to have called [${hooks.join(', ')}] in order`
+        : `Expected ${describeElement(received)} to have called [${hooks.join(', ')}] in order, but ${hooks[matched]} was not called after ${matched > 0 ? hooks[matched - 1] : 'the component was created'}. Recorded calls:\n${formatLifecycleCalls(calls)}`,
+  };
+}
+
+/**
+ * Check if a component has rendered a specific number of times
+ */
+export function toHaveRenderedTimes(received: HTMLElement, count: number): { pass: boolean; message: () => string } {
+  const renders = getRenderCount(received);
+  if (renders === undefined) {
     return {
       pass: false,
       message: () =>
-        `Expected event "${received.eventName}" to have been received with detail, but no events were received`,
+        isInCountingStage(received)
+          ? `Renders could not be counted for ${describeElement(received)}: it was not registered with Stencil while its stage was mounted, or its build is not supported`
+          : `Renders were not counted for ${describeElement(received)}. Render it with \`countRenders: true\``,
     };
   }
 
-  if (index < 0 || index >= received.length) {
+  const pass = renders === count;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to have rendered ${count} times`
+        : `Expected ${describeElement(received)} to have rendered ${count} times, but it rendered ${renders} times`,
+  };
+}
+
+/**
+ * Format recorded prop changes for matcher messages
+ */
+function formatPropChanges(context: MatcherContext, changes: PropChange[]): string {
+  const { stringify } = context.utils;
+  return changes.length > 0
+    ? changes
+        .map(
+          (change, i) =>
+            `  ${i + 1}. ${stringify(change.oldValue)} → ${stringify(change.newValue)}${change.rendered ? ' (rendered)' : ''}`,
+        )
+        .join('\n')
+    : '  (none)';
+}
+
+/**
+ * Check if a watched prop or state member changed, optionally from `oldValue` to `newValue`.
+ * Accepts the component element (with a `watchSpy()` created for the member) or the watch spy itself.
+ * Values are compared like `toEqual()`, so asymmetric matchers such as `expect.any(Date)` work
+ */
+export function toHaveChangedProp(
+  this: MatcherContext,
+  received: HTMLElement | WatchSpy,
+  propName: string,
+  ...values: [oldValue?: any, newValue?: any]
+): { pass: boolean; message: () => string } {
+  const isSpy = Array.isArray((received as WatchSpy)?.changes);
+  const spy = isSpy ? (received as WatchSpy) : getWatchSpy(received as HTMLElement, propName);
+  const target = isSpy ? 'watch spy' : describeElement(received as HTMLElement);
+
+  if (!spy || spy.propName !== propName) {
     return {
       pass: false,
-      message: () => `Expected event at index ${index}, but only ${received.length} events were received`,
+      message: () =>
+        `"${propName}" is not watched on ${target}. Create a spy with \`watchSpy(element, '${propName}')\` before changing it`,
+    };
+  }
+
+  const testers = [...this.customTesters, this.utils.iterableEquality];
+  const [oldValue, newValue] = values;
+  const pass = spy.changes.some(
+    (change) =>
+      (values.length < 1 || this.equals(change.oldValue, oldValue, testers)) &&
+      (values.length < 2 || this.equals(change.newValue, newValue, testers)),
+  );
+  const { stringify } = this.utils;
+  const expected =
+    values.length === 0
+      ? ''
+      : values.length === 1
+        ? ` from ${stringify(oldValue)}`
+        : ` from ${stringify(oldValue)} to ${stringify(newValue)}`;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected "${propName}" on ${target} not to have changed${expected}`
+        : `Expected "${propName}" on ${target} to have changed${expected}. Recorded changes:\n${formatPropChanges(this, spy.changes)}`,
+  };
+}
+
+/**
+ * The kind of a value, e.g. `File`. happy-dom's files and form data don't set `Symbol.toStringTag`,
+ * so their class name is used instead
+ */
+function tagOf(value: unknown): string {
+  const tag = Object.prototype.toString.call(value).slice(8, -1);
+  return tag === 'Object' ? ((value as any).constructor?.name ?? tag) : tag;
+}
+
+function formDataEntries(data: FormData): [string, FormDataEntryValue][] {
+  const entries: [string, FormDataEntryValue][] = [];
+  data.forEach((value, name) => entries.push([name, value]));
+  return entries;
+}
+
+/**
+ * Equality tester for form values. Files and FormData have no own properties, so `equals()` alone finds
+ * any two of them equal: files are compared by name, type and size, and FormData by its entries
+ */
+function formValueEquality(context: MatcherContext) {
+  return function (a: unknown, b: unknown): boolean | undefined {
+    const tags = [tagOf(a), tagOf(b)];
+    if (tags.includes('FormData')) {
+      return (
+        tags[0] === tags[1] &&
+        context.equals(formDataEntries(a as FormData), formDataEntries(b as FormData), [formValueEquality(context)])
+      );
+    }
+    if (tags.some((tag) => tag === 'File' || tag === 'Blob')) {
+      const [fileA, fileB] = [a as File, b as File];
+      return (
+        tags[0] === tags[1] &&
+        (fileA === fileB || (fileA.name === fileB.name && fileA.type === fileB.type && fileA.size === fileB.size))
+      );
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Describe a form value for matcher messages
+ */
+function describeFormValue(value: FormValue): string {
+  const tag = tagOf(value);
+  if (tag === 'File') return `File "${(value as File).name}"`;
+  if (tag === 'FormData') return `FormData ${safeStringify(formDataEntries(value as FormData))}`;
+  return safeStringify(value);
+}
+
+/**
+ * Check the value a form control or form-associated component contributes to its form:
+ * the value set with `ElementInternals.setFormValue()`, or a native control's value
+ */
+export function toHaveFormValue(
+  this: MatcherContext,
+  received: HTMLElement,
+  value: FormValue,
+): { pass: boolean; message: () => string } {
+  const actual = formValueOf(received);
+  if (actual === undefined) {
+    return {
+      pass: false,
+      message: () =>
+        `Expected ${describeElement(received)} to have a form value, but it is not a form control or a form-associated component with attached internals`,
     };
   }
 
-  const event = received.events[index];
-  const pass = safeEquals(event.detail, detail);
+  const pass = this.equals(actual, value, [formValueEquality(this), ...this.customTesters]);
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to have form value ${describeFormValue(value)}`
+        : `Expected ${describeElement(received)} to have form value ${describeFormValue(value)}, but got ${describeFormValue(actual)}`,
+  };
+}
+
+/**
+ * Check that a form control or form-associated component fails constraint validation,
+ * optionally for a specific reason (`valueMissing`, `customError`...)
+ */
+export function toBeInvalid(
+  received: HTMLElement,
+  validityKey?: ValidityFlag,
+): { pass: boolean; message: () => string } {
+  const validity = validityOf(received);
+  if (!validity) {
+    return {
+      pass: false,
+      message: () =>
+        `Expected ${describeElement(received)} to be invalid, but it is not a form control or a form-associated component with attached internals`,
+    };
+  }
+
+  const failing = VALIDITY_FLAGS.filter((key) => validity[key] === true);
+  const pass = validityKey ? failing.includes(validityKey) : !validity.valid;
+  const reason = validityKey ? ` (${validityKey})` : '';
+  const state = failing.length > 0 ? `it fails ${failing.join(', ')}` : 'it is valid';
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to be invalid${reason}, but ${state}`
+        : `Expected ${describeElement(received)} to be invalid${reason}, but ${state}`,
+  };
+}
+
+/**
+ * Describe a slot by its name for matcher messages
+ */
+function describeSlot(name: string): string {
+  return name ? `the "${name}" slot` : 'the default slot';
+}
+
+/**
+ * Find a host's slot by name (`''` for the default slot), or describe why it cannot be found
+ */
+function findSlot(received: HTMLElement, slotName: string): { slot?: HTMLSlotElement; problem?: string } {
+  if (!received?.shadowRoot) {
+    return { problem: 'it has no shadow root' };
+  }
+
+  const slots = Array.from(received.shadowRoot.querySelectorAll('slot'));
+  const slot = slots.find((candidate) => (candidate.getAttribute('name') ?? '') === slotName);
+  if (slot) return { slot };
+
+  const names = slots.map((candidate) => JSON.stringify(candidate.getAttribute('name') ?? ''));
+  return { problem: names.length > 0 ? `its slots are named ${names.join(', ')}` : 'it has no slots' };
+}
+
+/**
+ * The elements and non-blank text assigned to a slot, with slots forwarded into it replaced by their content
+ */
+function slottedContent(slot: HTMLSlotElement): Node[] {
+  if (slot.assignedNodes().length === 0) return [];
+  return slot
+    .assignedNodes({ flatten: true })
+    .filter((node) => node.nodeType === 1 || (node.nodeType === 3 && (node.textContent ?? '').trim() !== ''));
+}
+
+/**
+ * Format slotted nodes for matcher messages
+ */
+function formatSlotted(nodes: Node[]): string {
+  return nodes
+    .map((node) =>
+      node.nodeType === 1
+        ? `${describeElement(node as Element)} ${JSON.stringify((node.textContent ?? '').trim())}`
+        : JSON.stringify((node.textContent ?? '').trim()),
+    )
+    .join(', ');
+}
+
+/**
+ * Check whether slotted nodes match a selector (or contain an element that does) or contain some text
+ */
+function matchesSlotted(nodes: Node[], selectorOrText: string): boolean {
+  const elements = nodes.filter((node) => node.nodeType === 1) as Element[];
+  try {
+    if (elements.some((elm) => elm.matches(selectorOrText) || elm.querySelector(selectorOrText))) return true;
+  } catch {
+    // Not a valid selector, so only compare text
+  }
+  const text = nodes
+    .map((node) => node.textContent ?? '')
+    .join('')
+    .replace(/\s+/g, ' ');
+  return text.includes(selectorOrText);
+}
+
+/**
+ * Check that content is assigned to a host's slot (`''` for the default slot), optionally content matching
+ * a selector or containing some text. Fallback content does not count
+ */
+export function toHaveSlotted(
+  received: HTMLElement,
+  slotName: string,
+  selectorOrText?: string,
+): { pass: boolean; message: () => string } {
+  const { slot, problem } = findSlot(received, slotName);
+  if (!slot) {
+    return {
+      pass: false,
+      message: () => `Expected ${describeElement(received)} to have ${describeSlot(slotName)}, but ${problem}`,
+    };
+  }
+
+  const nodes = slottedContent(slot);
+  const pass = selectorOrText === undefined ? nodes.length > 0 : matchesSlotted(nodes, selectorOrText);
+  const expected = selectorOrText === undefined ? 'content' : `"${selectorOrText}"`;
+  const actual = nodes.length > 0 ? `it has ${formatSlotted(nodes)}` : 'nothing is assigned to it';
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeElement(received)} not to have ${expected} slotted into ${describeSlot(slotName)}, but ${actual}`
+        : `Expected ${describeElement(received)} to have ${expected} slotted into ${describeSlot(slotName)}, but ${actual}`,
+  };
+}
+
+/**
+ * Check that nothing but blank text is assigned to a host's slot (`''` for the default slot)
+ */
+export function toHaveEmptySlot(received: HTMLElement, slotName: string): { pass: boolean; message: () => string } {
+  const { slot, problem } = findSlot(received, slotName);
+  if (!slot) {
+    return {
+      pass: false,
+      message: () => `Expected ${describeElement(received)} to have ${describeSlot(slotName)}, but ${problem}`,
+    };
+  }
+
+  const nodes = slottedContent(slot);
+  const pass = nodes.length === 0;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected ${describeSlot(slotName)} of ${describeElement(received)} not to be empty`
+        : `Expected ${describeSlot(slotName)} of ${describeElement(received)} to be empty, but it has ${formatSlotted(nodes)}`,
+  };
+}
+
+/**
+ * Format axe-core violations for matcher messages, grouped by rule with each failing node serialized
+ */
+function formatViolations(violations: AccessibilityViolation[]): string {
+  return violations
+    .map((violation) => {
+      const nodes = violation.nodes.map((node) => {
+        const html = node.element ? serializeHtml(node.element as HTMLElement) : node.html;
+        return html
+          .trim()
+          .split('\n')
+          .map((line) => `    ${line}`)
+          .join('\n');
+      });
+      return `${violation.id} (${violation.impact}): ${violation.help}\n  ${violation.helpUrl}\n${nodes.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Audit the stage an element was rendered in, including open shadow roots, with axe-core. Fails on
+ * violations at or above `impact`. Rules needing layout or rendered colours only run in browsers
+ */
+export async function toBeAccessible(
+  received: HTMLElement,
+  options: AccessibilityOptions = {},
+): Promise<{ pass: boolean; message: () => string }> {
+  const violations = await auditAccessibility(received, options);
+  const pass = violations.length === 0;
+  const impact = options.impact ? ` at ${options.impact} impact or above` : '';
 
   return {
     pass,
     message: () =>
       pass
-        ? `Expected event at index ${index} detail not to equal ${safeStringify(detail)}`
-        : `Expected event at index ${index} detail to equal ${safeStringify(detail)}, but got ${safeStringify(event.detail)}`,
+        ? `Expected ${describeElement(received)} not to be accessible, but axe found no violations${impact}`
+        : `Expected ${describeElement(received)} to be accessible, but axe found ${violations.length} violation${violations.length === 1 ? '' : 's'}${impact}:\n\n${formatViolations(violations)}`,
   };
 }
 
@@ -593,9 +1109,20 @@ export function installMatchers() {
     toHaveReceivedEvent,
     toHaveReceivedEventTimes,
     toHaveReceivedEventDetail,
+    toHaveReceivedEventDetailMatching,
     toHaveFirstReceivedEventDetail,
     toHaveLastReceivedEventDetail,
     toHaveNthReceivedEventDetail,
+    toHaveCalledLifecycle,
+    toHaveLifecycleOrder,
+    toHaveRenderedTimes,
+    toHaveChangedProp,
+    toHaveEmittedInOrder,
+    toHaveFormValue,
+    toBeInvalid,
+    toHaveSlotted,
+    toHaveEmptySlot,
+    toBeAccessible,
   });
 }
 
@@ -0,0 +1,515 @@
+/**
+ * Testing Library style queries
+ *
+ * `*ByRole()`, `*ByText()`, `*ByLabelText()` and `*ByTestId()` in their `getBy`, `getAllBy`, `queryBy`,
+ * `queryAllBy`, `findBy` and `findAllBy` variants. Unlike `@testing-library/dom` they search inside open
+ * shadow roots and resolve slotted content when computing accessible names, using plain DOM APIs so they
+ * behave the same in mock-doc, jsdom and happy-dom.
+ */
+
+import type { BoundQueries, ByRoleOptions, ByTextOptions, MatchOptions, TextMatch, WaitForOptions } from '../types.js';
+import { collectElements, describeNode } from './query.js';
+import { waitFor } from './render.js';
+
+/**
+ * Implicit ARIA roles of elements whose role does not depend on their attributes
+ */
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  button: 'button',
+  details: 'group',
+  dialog: 'dialog',
+  fieldset: 'group',
+  footer: 'contentinfo',
+  form: 'form',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: 'banner',
+  hr: 'separator',
+  li: 'listitem',
+  main: 'main',
+  nav: 'navigation',
+  ol: 'list',
+  option: 'option',
+  progress: 'progressbar',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list',
+};
+
+/**
+ * Roles whose accessible name comes from their content
+ */
+const NAME_FROM_CONTENT = new Set([
+  'button',
+  'cell',
+  'checkbox',
+  'columnheader',
+  'gridcell',
+  'heading',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'row',
+  'rowheader',
+  'switch',
+  'tab',
+  'tooltip',
+  'treeitem',
+]);
+
+const LABELABLE = new Set(['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea']);
+
+type Queries<M, O> = {
+  queryAll: (container: ParentNode, match: M, options?: O) => Element[];
+  query: (container: ParentNode, match: M, options?: O) => Element | null;
+  getAll: (container: ParentNode, match: M, options?: O) => Element[];
+  get: (container: ParentNode, match: M, options?: O) => Element;
+  findAll: (container: ParentNode, match: M, options?: O, waitOptions?: WaitForOptions) => Promise<Element[]>;
+  find: (container: ParentNode, match: M, options?: O, waitOptions?: WaitForOptions) => Promise<Element>;
+};
+
+/**
+ * Every element a query searches, including the shadow root of a host used as the container
+ */
+function elementsIn(container: ParentNode): Element[] {
+  const shadowRoot = (container as Element).shadowRoot;
+  return shadowRoot ? [...collectElements(shadowRoot), ...collectElements(container)] : collectElements(container);
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check whether text matches a string, regular expression or function
+ */
+function matchText(text: string | null | undefined, elm: Element, matcher: TextMatch, exact = true): boolean {
+  if (text === null || text === undefined) return false;
+
+  const normalized = normalize(text);
+  if (typeof matcher === 'function') return matcher(normalized, elm);
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return matcher.test(normalized);
+  }
+  return exact
+    ? normalized === normalize(matcher)
+    : normalized.toLowerCase().includes(normalize(matcher).toLowerCase());
+}
+
+function describeMatch(matcher: TextMatch): string {
+  return typeof matcher === 'string' ? `"${matcher}"` : typeof matcher === 'function' ? 'a function' : String(matcher);
+}
+
+/**
+ * The top of the tree a node is in: its document or shadow root
+ */
+function rootOf(node: Node): any {
+  let current: any = node;
+  while (current.parentNode) {
+    current = current.parentNode;
+  }
+  return current;
+}
+
+/**
+ * Element with an id in a node's tree, then in the trees of its shadow hosts and the document, so ids
+ * referenced from inside a shadow root can point at light DOM content
+ */
+function getElementById(node: Node, id: string): Element | undefined {
+  let root = rootOf(node);
+  while (root) {
+    const found = Array.from<Element>(root.querySelectorAll('[id]')).find((elm) => elm.getAttribute('id') === id);
+    if (found) return found;
+    root = root.host ? rootOf(root.host) : root !== node.ownerDocument ? node.ownerDocument : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Nodes assigned to a slot, or its fallback content
+ */
+export function slotContent(slot: Element): Node[] {
+  const assigned = (slot as HTMLSlotElement).assignedNodes();
+  return assigned.length > 0 ? assigned : Array.from(slot.childNodes);
+}
+
+/**
+ * Check whether an element is hidden by the `hidden` attribute or an inline style
+ */
+function isHiddenByStyle(elm: Element): boolean {
+  const style = elm.getAttribute('style') ?? '';
+  return elm.hasAttribute('hidden') || /display\s*:\s*none/.test(style) || /visibility\s*:\s*hidden/.test(style);
+}
+
+function isHidden(elm: Element): boolean {
+  return isHiddenByStyle(elm) || elm.getAttribute('aria-hidden') === 'true';
+}
+
+/**
+ * Check whether an element, or any of its ancestors across shadow roots, passes a check
+ */
+function hasAncestor(elm: Element, check: (elm: Element) => boolean): boolean {
+  let current: any = elm;
+  while (current) {
+    if (current.nodeType === 1 && check(current)) return true;
+    current = current.parentNode ?? current.host;
+  }
+  return false;
+}
+
+/**
+ * Check whether an element, or any of its ancestors across shadow roots, is hidden from assistive technology
+ */
+function isInaccessible(elm: Element): boolean {
+  return hasAncestor(elm, isHidden);
+}
+
+/**
+ * Check whether an element is visible: neither it nor any of its ancestors across shadow roots
+ * is hidden by the `hidden` attribute or an inline `display: none` or `visibility: hidden`
+ */
+export function isVisible(elm: Element): boolean {
+  return !hasAncestor(elm, isHiddenByStyle);
+}
+
+/**
+ * Text an element presents: its rendered (shadow) content, with slots replaced by the nodes assigned to them
+ */
+function textOf(node: Node): string {
+  if (node.nodeType === 3) return node.textContent ?? '';
+  if (node.nodeType !== 1) return '';
+
+  const elm = node as Element;
+  const tag = elm.tagName.toLowerCase();
+  if (tag === 'script' || tag === 'style' || isHidden(elm)) return '';
+  if (tag === 'img') return elm.getAttribute('alt') ?? '';
+  if (tag === 'slot') return slotContent(elm).map(textOf).join('');
+
+  const children = elm.shadowRoot ? elm.shadowRoot.childNodes : elm.childNodes;
+  return Array.from(children).map(textOf).join('');
+}
+
+/**
+ * Label elements associated with a control, with `for` or by nesting it
+ */
+function labelsOf(elm: Element): Element[] {
+  const labels: Element[] = [];
+  const id = elm.getAttribute('id');
+  if (id) {
+    labels.push(
+      ...Array.from<Element>(rootOf(elm).querySelectorAll('label')).filter((label) => label.getAttribute('for') === id),
+    );
+  }
+
+  const wrapping = elm.parentElement?.closest('label');
+  if (wrapping && !wrapping.hasAttribute('for') && !labels.includes(wrapping)) {
+    labels.push(wrapping);
+  }
+  return labels;
+}
+
+/**
+ * Texts labelling an element: `aria-labelledby`, `aria-label` and associated label elements
+ */
+function labelTexts(elm: Element): string[] {
+  const texts: string[] = [];
+
+  const labelledBy = elm.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    texts.push(
+      labelledBy
+        .split(/\s+/)
+        .map((id) => getElementById(elm, id))
+        .map((label) => (label ? textOf(label) : ''))
+        .join(' '),
+    );
+  }
+
+  const ariaLabel = elm.getAttribute('aria-label');
+  if (ariaLabel) texts.push(ariaLabel);
+
+  labelsOf(elm).forEach((label) => texts.push(textOf(label)));
+  return texts.map(normalize).filter(Boolean);
+}
+
+function getRole(elm: Element): string | undefined {
+  const explicit = elm.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+
+  const tag = elm.tagName.toLowerCase();
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return elm.hasAttribute('href') ? 'link' : undefined;
+    case 'img':
+      return elm.getAttribute('alt') === '' ? 'presentation' : 'img';
+    case 'section':
+      return elm.hasAttribute('aria-label') || elm.hasAttribute('aria-labelledby') ? 'region' : undefined;
+    case 'select':
+      return elm.hasAttribute('multiple') || Number(elm.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+    case 'input':
+      return inputRole(elm);
+    default:
+      return IMPLICIT_ROLES[tag];
+  }
+}
+
+function inputRole(elm: Element): string | undefined {
+  const type = (elm.getAttribute('type') ?? 'text').toLowerCase();
+  switch (type) {
+    case 'button':
+    case 'image':
+    case 'reset':
+    case 'submit':
+      return 'button';
+    case 'checkbox':
+      return 'checkbox';
+    case 'radio':
+      return 'radio';
+    case 'range':
+      return 'slider';
+    case 'number':
+      return 'spinbutton';
+    case 'hidden':
+      return undefined;
+    case 'search':
+      return elm.hasAttribute('list') ? 'combobox' : 'searchbox';
+    default:
+      return elm.hasAttribute('list') ? 'combobox' : 'textbox';
+  }
+}
+
+function headingLevel(elm: Element): number | undefined {
+  const ariaLevel = elm.getAttribute('aria-level');
+  if (ariaLevel) return Number(ariaLevel);
+
+  const match = /^h([1-6])$/.exec(elm.tagName.toLowerCase());
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Accessible name of an element, following the main steps of the accessible name computation
+ */
+function accessibleName(elm: Element, role: string | undefined): string {
+  const tag = elm.tagName.toLowerCase();
+
+  const labelledBy = elm.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    return normalize(
+      labelledBy
+        .split(/\s+/)
+        .map((id) => getElementById(elm, id))
+        .map((label) => (label ? textOf(label) : ''))
+        .join(' '),
+    );
+  }
+
+  const ariaLabel = elm.getAttribute('aria-label')?.trim();
+  if (ariaLabel) return ariaLabel;
+
+  if (tag === 'input') {
+    const type = (elm.getAttribute('type') ?? 'text').toLowerCase();
+    if (type === 'button' || type === 'submit' || type === 'reset') {
+      return elm.getAttribute('value') ?? (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+    }
+    if (type === 'image') return elm.getAttribute('alt') ?? '';
+  }
+
+  if (LABELABLE.has(tag) || tag.includes('-')) {
+    const labels = labelsOf(elm);
+    if (labels.length > 0) return normalize(labels.map(textOf).join(' '));
+  }
+
+  if (tag === 'img') return normalize(elm.getAttribute('alt') ?? '');
+
+  if (role && NAME_FROM_CONTENT.has(role)) {
+    const content = normalize(textOf(elm));
+    if (content) return content;
+  }
+
+  return normalize(elm.getAttribute('title') ?? elm.getAttribute('placeholder') ?? '');
+}
+
+function queryAllByRole(container: ParentNode, role: string, options: ByRoleOptions = {}): Element[] {
+  const { name, level, hidden = false, exact } = options;
+
+  return elementsIn(container).filter((elm) => {
+    const elmRole = getRole(elm);
+    if (elmRole !== role) return false;
+    if (!hidden && isInaccessible(elm)) return false;
+    if (level !== undefined && headingLevel(elm) !== level) return false;
+    return name === undefined || matchText(accessibleName(elm, elmRole), elm, name, exact);
+  });
+}
+
+function queryAllByText(container: ParentNode, text: TextMatch, options: ByTextOptions = {}): Element[] {
+  const { selector = '*', exact } = options;
+
+  return elementsIn(container).filter((elm) => {
+    const tag = elm.tagName.toLowerCase();
+    if (tag === 'script' || tag === 'style' || !elm.matches(selector)) return false;
+
+    const ownText = Array.from(elm.childNodes)
+      .filter((node) => node.nodeType === 3)
+      .map((node) => node.textContent)
+      .join('');
+    return matchText(ownText, elm, text, exact);
+  });
+}
+
+function queryAllByLabelText(container: ParentNode, text: TextMatch, options: MatchOptions = {}): Element[] {
+  return elementsIn(container).filter(
+    (elm) =>
+      elm.tagName.toLowerCase() !== 'label' &&
+      labelTexts(elm).some((label) => matchText(label, elm, text, options.exact)),
+  );
+}
+
+function queryAllByTestId(container: ParentNode, testId: TextMatch, options: MatchOptions = {}): Element[] {
+  return elementsIn(container).filter((elm) => matchText(elm.getAttribute('data-testid'), elm, testId, options.exact));
+}
+
+/**
+ * List the accessible roles in a container, with the names of their elements
+ */
+function describeRoles(container: ParentNode): string {
+  const roles = new Map<string, string[]>();
+  elementsIn(container).forEach((elm) => {
+    const role = getRole(elm);
+    if (!role || isInaccessible(elm)) return;
+    roles.set(role, [...(roles.get(role) ?? []), `"${accessibleName(elm, role)}"`]);
+  });
+
+  if (roles.size === 0) {
+    return `There are no accessible roles in ${describeNode(container)}`;
+  }
+  const lines = Array.from(roles).map(([role, names]) => `  ${role}: ${names.join(', ')}`);
+  return `Accessible roles in ${describeNode(container)}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Build the query variants from a `queryAll*` function
+ */
+function buildQueries<M, O>(
+  queryAll: (container: ParentNode, match: M, options?: O) => Element[],
+  name: string,
+  describe: (match: M, options?: O) => string,
+  explainMissing?: (container: ParentNode) => string,
+): Queries<M, O> {
+  const missing = (container: ParentNode, match: M, options?: O) => {
+    const message = `Unable to find an element with ${describe(match, options)} in ${describeNode(container)}`;
+    return new Error(explainMissing ? `${message}\n\n${explainMissing(container)}` : message);
+  };
+
+  const queries: Queries<M, O> = {
+    queryAll,
+    query(container, match, options) {
+      const matches = queryAll(container, match, options);
+      if (matches.length > 1) {
+        throw new Error(
+          `Found ${matches.length} elements with ${describe(match, options)}. Use getAll${name}() or queryAll${name}() to get all of them:\n${matches
+            .map((elm) => `  ${describeNode(elm)}`)
+            .join('\n')}`,
+        );
+      }
+      return matches[0] ?? null;
+    },
+    getAll(container, match, options) {
+      const matches = queryAll(container, match, options);
+      if (matches.length === 0) throw missing(container, match, options);
+      return matches;
+    },
+    get(container, match, options) {
+      const elm = queries.query(container, match, options);
+      if (!elm) throw missing(container, match, options);
+      return elm;
+    },
+    findAll: (container, match, options, waitOptions) =>
+      waitFor(() => queries.getAll(container, match, options), waitOptions),
+    find: (container, match, options, waitOptions) =>
+      waitFor(() => queries.get(container, match, options), waitOptions),
+  };
+  return queries;
+}
+
+const byRole = buildQueries<string, ByRoleOptions>(
+  queryAllByRole,
+  'ByRole',
+  (role, options = {}) =>
+    [
+      `the role "${role}"`,
+      options.name !== undefined ? ` and name ${describeMatch(options.name)}` : '',
+      options.level !== undefined ? ` and level ${options.level}` : '',
+    ].join(''),
+  describeRoles,
+);
+
+const byText = buildQueries<TextMatch, ByTextOptions>(
+  queryAllByText,
+  'ByText',
+  (text) => `the text ${describeMatch(text)}`,
+);
+
+const byLabelText = buildQueries<TextMatch, MatchOptions>(
+  queryAllByLabelText,
+  'ByLabelText',
+  (text) => `the label ${describeMatch(text)}`,
+);
+
+const byTestId = buildQueries<TextMatch, MatchOptions>(
+  queryAllByTestId,
+  'ByTestId',
+  (testId) => `data-testid ${describeMatch(testId)}`,
+);
+
+/**
+ * Bind the queries to a container, resolved on each call
+ */
+export function bindQueries(getContainer: () => ParentNode): BoundQueries {
+  const bind = <M, O>(queries: Queries<M, O>, name: string) => ({
+    [`getBy${name}`]: (match: M, options?: O) => queries.get(getContainer(), match, options),
+    [`getAllBy${name}`]: (match: M, options?: O) => queries.getAll(getContainer(), match, options),
+    [`queryBy${name}`]: (match: M, options?: O) => queries.query(getContainer(), match, options),
+    [`queryAllBy${name}`]: (match: M, options?: O) => queries.queryAll(getContainer(), match, options),
+    [`findBy${name}`]: (match: M, options?: O, waitOptions?: WaitForOptions) =>
+      queries.find(getContainer(), match, options, waitOptions),
+    [`findAllBy${name}`]: (match: M, options?: O, waitOptions?: WaitForOptions) =>
+      queries.findAll(getContainer(), match, options, waitOptions),
+  });
+
+  return {
+    ...bind(byRole, 'Role'),
+    ...bind(byText, 'Text'),
+    ...bind(byLabelText, 'LabelText'),
+    ...bind(byTestId, 'TestId'),
+  } as unknown as BoundQueries;
+}
+
+/**
+ * Testing Library style queries scoped to any element, shadow root or document
+ *
+ * @example
+ * ```ts
+ * const dialog = screen.getByRole('dialog');
+ * within(dialog).getByRole('button', { name: 'Close' }).click();
+ * ```
+ */
+export function within(container: ParentNode): BoundQueries {
+  return bindQueries(() => container);
+}
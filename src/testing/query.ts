@@ -0,0 +1,231 @@
+/**
+ * Shadow-piercing queries
+ *
+ * `find()` and `findAll()` take a CSS selector where `>>>` steps into the shadow root of the
+ * elements matched so far (`my-card >>> button`), or search every open shadow root with `deep: true`.
+ */
+
+import type { FindOptions } from '../types.js';
+
+const PIERCE = '>>>';
+
+interface Scope {
+  node: ParentNode;
+  deep: boolean;
+}
+
+/**
+ * Collect the elements matching a selector within a node, in document order.
+ * Deep searches include the contents of every open shadow root, right after its host
+ */
+function queryScope({ node, deep }: Scope, selector: string): Element[] {
+  if (!deep) {
+    return Array.from(node.querySelectorAll(selector));
+  }
+
+  const matches: Element[] = [];
+  walk(node, (elm) => {
+    if (elm.matches(selector)) matches.push(elm);
+  });
+  return matches;
+}
+
+/**
+ * Visit every element within a node, descending into open shadow roots
+ */
+function walk(node: ParentNode, visit: (elm: Element) => void) {
+  Array.from(node.children).forEach((child) => {
+    visit(child);
+    if (child.shadowRoot) {
+      walk(child.shadowRoot, visit);
+    }
+    walk(child, visit);
+  });
+}
+
+/**
+ * Collect every element within a node, including the contents of open shadow roots, in document order
+ */
+export function collectElements(node: ParentNode): Element[] {
+  const elements: Element[] = [];
+  walk(node, (elm) => elements.push(elm));
+  return elements;
+}
+
+/**
+ * The node a `>>>` step searches in: the shadow root, or the element itself for components without one
+ */
+function pierce(elm: Element, deep: boolean): Scope {
+  return { node: elm.shadowRoot ?? elm, deep };
+}
+
+/**
+ * Split a selector on the piercing combinator
+ */
+function parseSelector(selector: string): string[] {
+  const parts = selector.split(PIERCE).map((part) => part.trim());
+  if (parts.some((part) => part === '')) {
+    throw new Error(`Invalid selector "${selector}": \`${PIERCE}\` must have a selector on both sides`);
+  }
+  return parts;
+}
+
+/**
+ * Run each part of a selector against the scopes matched by the previous part.
+ * Stops at the first part that matches nothing
+ */
+function resolve(container: ParentNode, parts: string[], deep: boolean) {
+  let scopes: Scope[] = [{ node: container, deep }];
+  let matches: Element[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    matches = Array.from(new Set(scopes.flatMap((scope) => queryScope(scope, parts[i]))));
+    if (matches.length === 0 || i === parts.length - 1) {
+      return { matches, failedPart: matches.length === 0 ? i : -1, scopes };
+    }
+    scopes = matches.map((elm) => pierce(elm, deep));
+  }
+  return { matches, failedPart: -1, scopes };
+}
+
+/**
+ * Describe a node by its opening tag, for error messages
+ */
+export function describeNode(node: any): string {
+  if (node?.nodeType === 9) return 'document';
+  if (node?.nodeType === 11) return node.host ? `the shadow root of ${describeNode(node.host)}` : 'a fragment';
+
+  const attrs = Array.from((node as Element).attributes ?? [])
+    .map(({ name, value }) => (value === '' ? ` ${name}` : ` ${name}="${value}"`))
+    .join('');
+  return `<${node.tagName.toLowerCase()}${attrs}>`;
+}
+
+/**
+ * Edit distance between two strings
+ */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how close an element is to the last compound selector of a selector part (lower is closer),
+ * comparing its tag name, id and classes with those in the selector
+ */
+function closeness(elm: Element, part: string): number {
+  const compound = part.split(/[\s>+~]+/).pop() ?? part;
+  const tokens: string[] = compound.match(/[#.]?[\w-]+/g) ?? [];
+  const classes = (elm.getAttribute('class') ?? '').split(/\s+/).filter(Boolean);
+  const candidates = [
+    elm.tagName.toLowerCase(),
+    ...(elm.id ? [`#${elm.id}`] : []),
+    ...classes.map((className) => `.${className}`),
+  ];
+
+  return tokens.reduce((score, token) => {
+    const kind = token[0] === '#' || token[0] === '.' ? token[0] : '';
+    const sameKind = candidates.filter(
+      (candidate) => (candidate[0] === '#' || candidate[0] === '.' ? candidate[0] : '') === kind,
+    );
+    return score + Math.min(token.length, ...sameKind.map((candidate) => distance(token, candidate)));
+  }, 0);
+}
+
+/**
+ * Build the error thrown when `find()` matches nothing, listing the elements closest to the selector
+ */
+function notFoundError(container: ParentNode, selector: string, parts: string[], failedPart: number, scopes: Scope[]) {
+  const part = parts[failedPart];
+  const lines = [`find() found no element matching "${selector}" in ${describeNode(container)}.`];
+  const deep = scopes[0]?.deep ?? false;
+
+  if (failedPart > 0) {
+    const previous = parts.slice(0, failedPart).join(` ${PIERCE} `);
+    lines.push(
+      `"${previous}" matched ${scopes.length} element(s), but nothing inside ${scopes.length === 1 ? 'it' : 'them'} matched "${part}".`,
+    );
+  }
+
+  if (!deep) {
+    const shadowed = scopes.flatMap(({ node }) => queryScope({ node, deep: true }, part)).length;
+    if (shadowed > 0) {
+      lines.push(
+        `"${part}" matches ${shadowed} element(s) inside shadow roots. Pierce them with \`${PIERCE}\` or search with \`deep: true\`.`,
+      );
+    }
+  }
+
+  const nearest = scopes
+    .flatMap(({ node }) => collectElements(node))
+    .map((elm) => ({ elm, score: closeness(elm, part) }))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, 3);
+
+  if (nearest.length > 0) {
+    lines.push(`Nearest matches:\n${nearest.map(({ elm }) => `  ${describeNode(elm)}`).join('\n')}`);
+  } else {
+    lines.push('There are no elements to search.');
+  }
+  return new Error(lines.join('\n'));
+}
+
+/**
+ * Find all elements matching a selector within a container.
+ * `>>>` steps into the shadow root of the elements matched so far; `deep: true` searches every open shadow root
+ *
+ * @example
+ * ```ts
+ * const buttons = findAll(document, 'my-toolbar >>> my-button >>> button');
+ * const inputs = findAll<HTMLInputElement>(root, 'input', { deep: true });
+ * ```
+ */
+export function findAll<K extends keyof HTMLElementTagNameMap>(
+  container: ParentNode,
+  selector: K,
+  options?: FindOptions,
+): HTMLElementTagNameMap[K][];
+export function findAll<E extends Element = HTMLElement>(
+  container: ParentNode,
+  selector: string,
+  options?: FindOptions,
+): E[];
+export function findAll(container: ParentNode, selector: string, options: FindOptions = {}): Element[] {
+  return resolve(container, parseSelector(selector), !!options.deep).matches;
+}
+
+/**
+ * Find the first element matching a selector within a container, like `findAll()`.
+ * Throws when nothing matches, listing the elements closest to the selector
+ *
+ * @example
+ * ```ts
+ * const button = find(document, 'my-card >>> my-button >>> button');
+ * button.click();
+ * ```
+ */
+export function find<K extends keyof HTMLElementTagNameMap>(
+  container: ParentNode,
+  selector: K,
+  options?: FindOptions,
+): HTMLElementTagNameMap[K];
+export function find<E extends Element = HTMLElement>(
+  container: ParentNode,
+  selector: string,
+  options?: FindOptions,
+): E;
+export function find(container: ParentNode, selector: string, options: FindOptions = {}): Element {
+  const parts = parseSelector(selector);
+  const { matches, failedPart, scopes } = resolve(container, parts, !!options.deep);
+  if (matches.length === 0) {
+    throw notFoundError(container, selector, parts, failedPart, scopes);
+  }
+  return matches[0];
+}
@@ -1,37 +1,596 @@
-import { render as stencilRender } from '@stencil/core';
-import type { RenderResult, EventSpy } from '../types.js';
+import { renderVdom } from '@stencil/core/internal/client';
+import { vi } from 'vitest';
+import { getCurrentTest } from 'vitest/suite';
+import type {
+  FindOptions,
+  RenderOptions,
+  RenderResult,
+  PropChange,
+  SpyOnEventOptions,
+  WaitForChangesOptions,
+  WaitForEventOptions,
+  WaitForOptions,
+  WaitForSelectorOptions,
+  WatchSpy,
+} from '../types.js';
+import { advanceFrames, isFakeAnimationFrames } from './animation-frames.js';
+import { disposeEventSpies, spyOnEvent, waitForEvent } from './event-spy.js';
+import { instantiateTemplate, isTemplateResult, parseHtml } from './html-template.js';
+import { bindQueries, isVisible } from './queries.js';
+import { collectElements, describeNode, find, findAll } from './query.js';
+import { resetUserEvent } from './user-event.js';
+import {
+  countStageRenders,
+  isCountingRenders,
+  onInstanceRender,
+  onRender,
+  recordStageLifecycle,
+  releaseStage,
+} from './lifecycle.js';
+import {
+  collectComponents,
+  getHostRef,
+  getInstance,
+  getInstanceValues,
+  getWatchableMembers,
+  isComponentPending,
+} from './stencil-runtime.js';
 
-interface RenderOptions {
-  clearStage?: boolean;
-  stageAttrs?: Record<string, string>;
+// Captured up front so `waitFor()` timeouts still elapse when a test fakes timers
+const schedule = globalThis.setTimeout;
+const unschedule = globalThis.clearTimeout;
+
+// Track watch spies per component element
+const watchSpies = new WeakMap<Element, WatchSpy[]>();
+
+type ValueListener = (propName: string, newValue: any, oldValue: any) => void;
+
+// Listeners for writes to a component's prop and state values, keyed by Stencil's instance values map
+const valueListeners = new WeakMap<Map<string, any>, Set<ValueListener>>();
+
+interface MountedStage {
+  unmount: () => void;
+  /**
+   * Test the stage was created in, or `undefined` for stages rendered outside a test (in `beforeAll()`),
+   * which belong to the suite and are left until `cleanup()`
+   */
+  owner?: string;
+  /**
+   * Set once the stage has finished rendering
+   */
+  result?: RenderResult<any>;
 }
 
-// Track event spies
-const eventSpies = new WeakMap<HTMLElement, EventSpy[]>();
+// Stages created by render() that are still mounted, in render order
+const mountedStages = new Map<HTMLElement, MountedStage>();
 
 /**
- * Render using Stencil's render
+ * Identify the running test so stages rendered within the same test are kept together.
+ * `undefined` outside a test, where `expect.getState().currentTestName` still names the previous one
  */
-export async function render<T extends HTMLElement = HTMLElement>(
-  vnode: any,
-  options: RenderOptions = {
-    clearStage: true,
-    stageAttrs: { class: 'stencil-component-stage' },
+function currentTest(): string | undefined {
+  return getCurrentTest()?.id;
+}
+
+/**
+ * Get the stage containers created by render() that are still mounted
+ */
+function getMountedStages(): HTMLElement[] {
+  return Array.from(mountedStages.keys());
+}
+
+/**
+ * Unmount every stage created by render(), dispose every event spy and reset the `userEvent` focus, pointer and keyboard state
+ */
+export function cleanup() {
+  mountedStages.forEach(({ unmount }) => unmount());
+  disposeEventSpies();
+  resetUserEvent();
+}
+
+/**
+ * Like `cleanup()`, but leave the stages rendered outside a test for the suite's cleanup
+ */
+export function cleanupTest() {
+  mountedStages.forEach(({ unmount, owner }) => {
+    if (owner !== undefined) unmount();
+  });
+  disposeEventSpies();
+  resetUserEvent();
+}
+
+/**
+ * Get the stage containers rendered by tests, leaving out those rendered for the whole suite
+ */
+export function getTestStages(): HTMLElement[] {
+  return Array.from(mountedStages)
+    .filter(([, { owner }]) => owner !== undefined)
+    .map(([container]) => container);
+}
+
+/**
+ * Live view of the stages created by render(), with Testing Library style queries over `document.body`
+ */
+export const screen = {
+  ...bindQueries(() => document.body),
+
+  /**
+   * Render results of every mounted stage, in render order
+   */
+  get stages(): RenderResult<any>[] {
+    return Array.from(mountedStages.values())
+      .map(({ result }) => result)
+      .filter((result): result is RenderResult<any> => !!result);
+  },
+
+  /**
+   * Root elements of every mounted stage, in render order
+   */
+  get roots(): HTMLElement[] {
+    return screen.stages.map(({ root }) => root);
+  },
+
+  /**
+   * Find the stage an element was rendered in
+   */
+  getStage(element: Node): RenderResult<any> | undefined {
+    return screen.stages.find(({ stage }) => stage === element || stage.contains(element));
   },
-): Promise<RenderResult<T>> {
+};
+
+/**
+ * Append slot content to the host element, assigning the slot name to each top-level node.
+ * Text nodes are wrapped in a span so they can carry the `slot` attribute
+ */
+function applySlots(element: HTMLElement, slots: Record<string, string | HTMLElement>) {
+  Object.entries(slots).forEach(([name, content]) => {
+    const isDefault = name === '' || name === 'default';
+    const nodes = typeof content === 'string' ? parseHtml(content) : [content];
+
+    nodes.forEach((node) => {
+      if (isDefault) {
+        element.appendChild(node);
+      } else if (node.nodeType === 1) {
+        (node as HTMLElement).setAttribute('slot', name);
+        element.appendChild(node);
+      } else if (node.nodeType === 3 && node.textContent?.trim()) {
+        const wrapper = document.createElement('span');
+        wrapper.setAttribute('slot', name);
+        wrapper.appendChild(node);
+        element.appendChild(wrapper);
+      }
+    });
+  });
+}
+
+/**
+ * Collect `componentOnReady()` promises for every Stencil component within an element,
+ * including components inside open shadow roots
+ */
+function waitComponentOnReady(elm: any, promises: Promise<void>[]) {
+  if (!elm) return;
+  if ('shadowRoot' in elm) {
+    waitComponentOnReady(elm.shadowRoot, promises);
+  }
+  const children = elm.children;
+  const len = children.length;
+  for (let i = 0; i < len; i++) {
+    const childElm = children[i];
+    if (childElm.tagName.includes('-') && typeof childElm.componentOnReady === 'function') {
+      promises.push(childElm.componentOnReady().then(() => {}));
+    }
+    waitComponentOnReady(childElm, promises);
+  }
+}
+
+/**
+ * Wait for the next animation frame, which is when Stencil flushes its read/write task queues.
+ * When frames are controlled by the test (`useFakeAnimationFrames()`, or `vi.useFakeTimers()` which fakes
+ * animation frames too) the frame is stepped instead of waited for
+ */
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => resolve());
+    if (vi.isFakeTimers()) {
+      // `advanceTimersToNextFrame()` arrived in Vitest 2.1. Before it, step the clock by one frame
+      if (typeof vi.advanceTimersToNextFrame === 'function') vi.advanceTimersToNextFrame();
+      else vi.advanceTimersByTime(16);
+    }
+    if (isFakeAnimationFrames()) {
+      advanceFrames(1);
+    }
+  });
+}
+
+/**
+ * Flush Stencil's scheduler until every component in the document is idle,
+ * like `page.waitForChanges()` in `newSpecPage`.
+ *
+ * Each iteration lets Stencil flush its task queues, then waits for components that are still loading
+ * their lazy modules. Rejects if a component fails to load, or if components are still dirty after
+ * `maxIterations` (e.g. a component that updates itself on every render)
+ */
+export async function waitForChanges(options: WaitForChangesOptions = {}): Promise<void> {
+  const { maxIterations = 50 } = options;
+  let pending: HTMLElement[] = [];
+
+  for (let i = 0; i < maxIterations; i++) {
+    await nextFrame();
+
+    const components = collectComponents(document.documentElement);
+    await Promise.all(
+      components
+        .filter((elm: any) => typeof elm.componentOnReady === 'function')
+        .map((elm: any) => elm.componentOnReady()),
+    );
+
+    pending = components.filter(isComponentPending);
+    if (pending.length === 0) return;
+  }
+
+  const dirty = pending.map((elm) => `<${elm.tagName.toLowerCase()}>`).join(', ');
+  throw new Error(
+    `waitForChanges() gave up after ${maxIterations} iterations. Components with pending updates: ${dirty}`,
+  );
+}
+
+/**
+ * Resolve on the next DOM mutation in the document or any open shadow root, after `interval` milliseconds,
+ * or when `deadline` resolves, whichever comes first. DOM implementations without `MutationObserver`
+ * (mock-doc) rely on the interval
+ */
+function nextMutation(interval: number, deadline: Promise<void>): Promise<void> {
+  return new Promise((resolve) => {
+    const observers: MutationObserver[] = [];
+    const done = () => {
+      unschedule(timer);
+      observers.forEach((observer) => observer.disconnect());
+      resolve();
+    };
+    const timer = schedule(done, interval);
+    deadline.then(done);
+
+    if (typeof MutationObserver !== 'function') return;
+    const roots: Node[] = [
+      document.body,
+      ...collectElements(document.body)
+        .map((elm) => elm.shadowRoot)
+        .filter((root): root is ShadowRoot => !!root),
+    ];
+    roots.forEach((root) => {
+      const observer = new MutationObserver(done);
+      observer.observe(root, { subtree: true, childList: true, attributes: true, characterData: true });
+      observers.push(observer);
+    });
+  });
+}
+
+/**
+ * Call a callback until it stops throwing, retrying after each DOM mutation (or interval) once Stencil
+ * has run an update cycle. Rejects with the callback's last error after the timeout
+ */
+async function retry<T>(name: string, callback: () => T | Promise<T>, options: WaitForOptions): Promise<T> {
+  const { timeout = 1000, interval = 50 } = options;
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const deadline = new Promise<void>((resolve) => {
+    timer = schedule(() => {
+      timedOut = true;
+      resolve();
+    }, timeout);
+  });
+
+  let lastError: unknown;
+  try {
+    for (;;) {
+      try {
+        return await callback();
+      } catch (e) {
+        lastError = e;
+      }
+      if (timedOut) break;
+
+      await nextMutation(interval, deadline);
+      // One update cycle per attempt: components that are still dirty get another on the next one
+      await waitForChanges({ maxIterations: 1 }).catch(() => {});
+    }
+  } finally {
+    unschedule(timer);
+  }
+
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new Error(`${name} timed out after ${timeout}ms. Last error: ${reason}`);
+}
+
+/**
+ * Retry a callback until it stops throwing, e.g. an assertion on content a component renders
+ * after loading data. It re-runs after every DOM mutation in the document and its open shadow roots,
+ * once Stencil has flushed the resulting update cycle, and at least every `interval` milliseconds.
+ * Resolves with the callback's return value, or rejects with its last error after the timeout
+ *
+ * @example
+ * ```ts
+ * root.userId = 42;
+ * await waitFor(() => expect(find(root.shadowRoot, '.name')).toEqualText('Ada Lovelace'));
+ * ```
+ */
+export function waitFor<T>(callback: () => T | Promise<T>, options: WaitForOptions = {}): Promise<T> {
+  return retry('waitFor()', callback, options);
+}
+
+/**
+ * Wait for an element matching a selector to be attached to the DOM (the default) or visible,
+ * resolving with it, or for no element to match (`state: 'detached'`), resolving with `null`.
+ * Selectors can pierce shadow roots with `>>>`, like `find()`
+ *
+ * @example
+ * ```ts
+ * const list = await waitForSelector('my-search >>> .results', { state: 'visible' });
+ * await waitForSelector('my-search >>> .spinner', { state: 'detached' });
+ * ```
+ */
+export function waitForSelector(
+  selector: string,
+  options: WaitForSelectorOptions & { state: 'detached' },
+): Promise<null>;
+export function waitForSelector<E extends Element = HTMLElement>(
+  selector: string,
+  options?: WaitForSelectorOptions,
+): Promise<E>;
+export function waitForSelector(selector: string, options: WaitForSelectorOptions = {}): Promise<Element | null> {
+  const { state = 'attached', deep = false, container = document, ...waitOptions } = options;
+
+  return retry(
+    'waitForSelector()',
+    () => {
+      const matches = findAll(container, selector, { deep });
+      const found = matches.map((elm) => `  ${describeNode(elm)}`).join('\n');
+
+      if (state === 'detached') {
+        if (matches.length > 0) {
+          throw new Error(`"${selector}" still matches ${matches.length} element(s):\n${found}`);
+        }
+        return null;
+      }
+      if (matches.length === 0) {
+        throw new Error(`no element matches "${selector}" in ${describeNode(container)}`);
+      }
+      if (state === 'visible') {
+        const visible = matches.find(isVisible);
+        if (!visible) {
+          throw new Error(`"${selector}" matches ${matches.length} element(s), but none is visible:\n${found}`);
+        }
+        return visible;
+      }
+      return matches[0];
+    },
+    waitOptions,
+  );
+}
+
+/**
+ * Fail if any component in a stage rendered with `countRenders: true` re-renders while the callback runs.
+ * Pending updates are flushed before the callback, and updates it schedules are flushed before checking
+ *
+ * @example
+ * ```ts
+ * await expectNoRerender(async () => {
+ *   root.items = [...root.items]; // same content, new reference
+ * });
+ * ```
+ */
+export async function expectNoRerender(callback: () => unknown): Promise<void> {
+  if (!getMountedStages().some(isCountingRenders)) {
+    throw new Error('expectNoRerender() needs a stage rendered with `countRenders: true`');
+  }
+
+  await waitForChanges();
+
+  const rendered = new Map<Element, number>();
+  const stop = onRender((elm) => rendered.set(elm, (rendered.get(elm) ?? 0) + 1));
+  try {
+    await callback();
+    await waitForChanges();
+  } finally {
+    stop();
+  }
+
+  if (rendered.size > 0) {
+    const components = Array.from(rendered)
+      .map(([elm, count]) => `<${elm.tagName.toLowerCase()}> (${count} ${count === 1 ? 'time' : 'times'})`)
+      .join(', ');
+    throw new Error(`Expected no re-renders, but ${rendered.size} component(s) re-rendered: ${components}`);
+  }
+}
+
+/**
+ * Call a listener whenever Stencil writes one of a component's prop or state values.
+ * Stencil only writes a value when it has changed, so every write is a change
+ */
+function onValueChange(values: Map<string, any>, listener: ValueListener) {
+  let listeners = valueListeners.get(values);
+  if (!listeners) {
+    const set = values.set;
+    const current = new Set<ValueListener>();
+    values.set = function (propName: string, newValue: any) {
+      const oldValue = this.get(propName);
+      set.call(this, propName, newValue);
+      current.forEach((fn) => fn(propName, newValue, oldValue));
+      return this;
+    };
+    listeners = current;
+    valueListeners.set(values, listeners);
+  }
+  listeners.add(listener);
+}
+
+/**
+ * Get the watch spy created for a component's prop or state member, if any
+ */
+export function getWatchSpy(element: Element, propName: string): WatchSpy | undefined {
+  return watchSpies.get(element)?.find((spy) => spy.propName === propName);
+}
+
+/**
+ * Record every change of a component's `@Prop()` or `@State()` member, whether it was set on the element
+ * or from inside the component, and whether the component rendered afterwards.
+ * Create the spy after the component has loaded; changes made before are not recorded.
+ * Calling it again for the same member returns the existing spy
+ *
+ * @example
+ * ```ts
+ * const spy = watchSpy(root, 'variant');
+ * await setProps({ variant: 'danger' });
+ * expect(root).toHaveChangedProp('variant', 'primary', 'danger');
+ * expect(spy.lastChange?.rendered).toBe(true);
+ * ```
+ */
+export function watchSpy<V = any>(element: Element, propName: string): WatchSpy<V> {
+  const existing = getWatchSpy(element, propName);
+  if (existing) return existing;
+
+  const hostRef = getHostRef(element);
+  const tag = element?.tagName ? `<${element.tagName.toLowerCase()}>` : String(element);
+  if (!hostRef) {
+    throw new Error(`watchSpy() expects a Stencil component element, received ${tag}`);
+  }
+
+  const members = getWatchableMembers(element, hostRef);
+  if (!members) {
+    throw new Error(
+      `watchSpy() could not read the metadata of ${tag} to check that "${propName}" is a @Prop() or @State()`,
+    );
+  }
+  if (!members.includes(propName)) {
+    throw new Error(
+      `watchSpy(): ${tag} has no @Prop() or @State() named "${propName}". Watchable members: ${members.join(', ') || '(none)'}`,
+    );
+  }
+
+  const values = getInstanceValues(hostRef);
+  if (!values) {
+    throw new Error(`watchSpy() could not find the prop and state values of ${tag}`);
+  }
+
+  const spy: WatchSpy<V> = {
+    propName,
+    changes: [],
+    firstChange: undefined,
+    lastChange: undefined,
+    length: 0,
+  };
+
+  // Changes waiting for the component to render
+  let unrendered: PropChange<V>[] = [];
+
+  onValueChange(values, (name, newValue, oldValue) => {
+    if (name !== propName) return;
+
+    const change: PropChange<V> = { newValue, oldValue, rendered: false };
+    spy.changes.push(change);
+    spy.length = spy.changes.length;
+    spy.lastChange = change;
+    if (spy.length === 1) {
+      spy.firstChange = change;
+    }
+    unrendered.push(change);
+  });
+
+  const listenToRenders = () =>
+    onInstanceRender(getInstance(element), element, () => {
+      unrendered.forEach((change) => (change.rendered = true));
+      unrendered = [];
+    });
+
+  // Lazy builds create the instance once the component module has loaded
+  if (getInstance(element) === element && typeof (element as any).render !== 'function') {
+    (element as any).componentOnReady?.().then(listenToRenders);
+  } else {
+    listenToRenders();
+  }
+
+  let spiesForElement = watchSpies.get(element);
+  if (!spiesForElement) {
+    spiesForElement = [];
+    watchSpies.set(element, spiesForElement);
+  }
+  spiesForElement.push(spy);
+  return spy;
+}
+
+/**
+ * Render using Stencil's render.
+ * Accepts a VNode, an HTML string (like `newSpecPage({ html })`) or an `html` tagged template
+ */
+export async function render<T extends HTMLElement = HTMLElement, I = any>(
+  vnode: any,
+  options: RenderOptions = {},
+): Promise<RenderResult<T, I>> {
+  const {
+    clearStage = true,
+    stageAttrs = { class: 'stencil-component-stage' },
+    props,
+    attributes,
+    html,
+    slots,
+    waitForLoad = true,
+    recordLifecycle = false,
+    countRenders = false,
+  } = options;
+
   // Use Stencil's render which handles VNodes properly in the browser
   const container = document.createElement('div');
-  Object.entries(options.stageAttrs || {}).forEach(([key, value]) => {
+  Object.entries(stageAttrs).forEach(([key, value]) => {
     container.setAttribute(key, value);
   });
-  if (options.clearStage) {
-    // Clear existing stage containers
-    const existingStages = document.querySelectorAll('div');
-    existingStages.forEach((stage) => stage.remove());
+  const owner = currentTest();
+  if (clearStage) {
+    // Clear stages left over from previous tests, leaving any other elements in the document alone.
+    // Stages rendered earlier in the same test, or for the whole suite, are kept so fixtures can interact
+    mountedStages.forEach((stage) => {
+      if (stage.owner !== undefined && stage.owner !== owner) {
+        stage.unmount();
+      }
+    });
+  }
+
+  const unmount = () => {
+    mountedStages.delete(container);
+    disposeEventSpies(container);
+    if (container.parentElement) {
+      container.parentElement.removeChild(container);
+    }
+    releaseStage(container);
+  };
+
+  if (recordLifecycle) {
+    recordStageLifecycle(container);
+  }
+  if (countRenders) {
+    countStageRenders(container);
   }
+
   document.body.appendChild(container);
+  const mountedStage: MountedStage = { unmount, owner };
+  mountedStages.set(container, mountedStage);
+
+  // The same host ref is kept for the lifetime of the stage so `rerender()` can diff against the previous tree
+  const stageRef = {
+    $flags$: 0,
+    $cmpMeta$: { $flags$: 0, $tagName$: container.tagName },
+    $hostElement$: container,
+  };
 
-  await stencilRender(vnode, container);
+  const isMarkup = typeof vnode === 'string' || isTemplateResult(vnode);
+  if (isMarkup) {
+    // Parse the HTML into the stage - custom elements upgrade as they are connected
+    const { nodes, applyBindings } = instantiateTemplate(vnode);
+    nodes.forEach((node) => container.appendChild(node));
+    applyBindings();
+  } else {
+    renderVdom(stageRef, vnode);
+  }
 
   // Get the rendered element
   const element = container.firstElementChild as T;
@@ -40,105 +599,88 @@ export async function render<T extends HTMLElement = HTMLElement>(
     throw new Error('Failed to render component');
   }
 
-  // Wait for component to be ready
-  if (typeof (element as any).componentOnReady === 'function') {
-    await (element as any).componentOnReady();
+  // Apply options synchronously so they are in place before the component's first load
+  if (props) {
+    Object.entries(props).forEach(([key, value]) => {
+      (element as any)[key] = value;
+    });
   }
-
-  function waitForChanges(documentElement = document.documentElement) {
-    return new Promise<void>((resolve) => {
-      // Wait for Stencil's RAF-based update cycle
-      // Use multiple RAF cycles to ensure all batched updates complete
-      requestAnimationFrame(() => {
-        requestAnimationFrame(() => {
-          const promiseChain = [];
-          const waitComponentOnReady = (elm, promises) => {
-            if (!elm) return;
-            if ('shadowRoot' in elm) {
-              waitComponentOnReady(elm.shadowRoot, promises);
-            }
-            const children = elm.children;
-            const len = children.length;
-            for (let i = 0; i < len; i++) {
-              const childElm = children[i];
-              const childStencilElm = childElm;
-              if (childElm.tagName.includes('-') && typeof childStencilElm.componentOnReady === 'function') {
-                promises.push(childStencilElm.componentOnReady().then(() => {}));
-              }
-              waitComponentOnReady(childElm, promises);
-            }
-          };
-          waitComponentOnReady(documentElement, promiseChain);
-          Promise.all(promiseChain)
-            .then(() => resolve())
-            .catch(() => resolve());
-        });
-      });
+  if (attributes) {
+    Object.entries(attributes).forEach(([key, value]) => {
+      element.setAttribute(key, value);
     });
   }
+  if (html) {
+    parseHtml(html).forEach((node) => element.appendChild(node));
+  }
+  if (slots) {
+    applySlots(element, slots);
+  }
+
+  // Wait for component to be ready
+  if (waitForLoad && isMarkup) {
+    // Every custom element in the markup needs to load, not just the root
+    const promises: Promise<void>[] = [];
+    waitComponentOnReady(container, promises);
+    await Promise.all(promises);
+  } else if (waitForLoad && typeof (element as any).componentOnReady === 'function') {
+    await (element as any).componentOnReady();
+  }
 
   const setProps = async (newProps: Record<string, any>) => {
     Object.entries(newProps).forEach(([key, value]) => {
       (element as any)[key] = value;
     });
-
-    // Wait for multiple RAF cycles to ensure Stencil's batched updates complete
-    // Stencil batches updates using requestAnimationFrame for performance
-    await waitForChanges(container);
-
-    // Additional RAF cycle to ensure rendering is complete
-    await new Promise((resolve) => requestAnimationFrame(() => resolve(undefined)));
-  };
-
-  const unmount = () => {
-    if (container.parentElement) {
-      container.parentElement.removeChild(container);
-    }
+    await waitForChanges();
   };
 
-  const spyOnEvent = (eventName: string): EventSpy => {
-    // Return existing spy if already created
-    if (eventSpies.has(container)) {
-      return eventSpies.get(container)!.find((spy) => spy.eventName === eventName)!;
+  const rerender = async (newVnode: any) => {
+    if (isMarkup) {
+      throw new Error('rerender() can only be used when the stage was rendered from a VNode');
     }
 
-    const spy: EventSpy = {
-      eventName,
-      events: [],
-      firstEvent: undefined,
-      lastEvent: undefined,
-      length: 0,
-    };
-
-    // Store listener so we can remove it later
-    const listener = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      spy.events.push(customEvent);
-      spy.length = spy.events.length;
-      spy.lastEvent = customEvent;
-      if (spy.length === 1) {
-        spy.firstEvent = customEvent;
-      }
-    };
-
-    (spy as any)._listener = listener;
-    element.addEventListener(eventName, listener);
-    // Store the spy
-    let spiesForElement = eventSpies.get(container);
-    if (!spiesForElement) {
-      spiesForElement = [];
-      eventSpies.set(container, spiesForElement);
-    }
-    spiesForElement.push(spy);
-    return spy;
+    // Patch the existing stage so matching elements (and their component instances) are reused
+    renderVdom(stageRef, newVnode);
+    await waitForChanges();
   };
 
-  return {
+  const result: RenderResult<T, I> = {
     root: element,
-    waitForChanges,
-    instance: element as any,
+    stage: container,
+    waitForChanges: (waitOptions?: WaitForChangesOptions) => waitForChanges(waitOptions),
+    waitForSelector: (selector: string, waitOptions?: Omit<WaitForSelectorOptions, 'container'>) =>
+      waitForSelector(selector, { ...waitOptions, container }) as Promise<any>,
+    // Resolved on access, so it is available once a component rendered with `waitForLoad: false` has loaded
+    get instance() {
+      return (getHostRef(element) ? getInstance<I>(element) : element) as I;
+    },
     setProps,
+    rerender,
     unmount,
-    spyOnEvent,
+    spyOnEvent: <E extends Event = CustomEvent>(eventName: string, spyOptions?: SpyOnEventOptions) =>
+      spyOnEvent<E>(element, eventName, spyOptions),
+    waitForEvent: <E extends Event = CustomEvent>(eventName: string, waitOptions?: WaitForEventOptions<E>) =>
+      waitForEvent<E>(element, eventName, waitOptions),
+    find: (selector: string, findOptions?: FindOptions) => find(container, selector, findOptions),
+    findAll: (selector: string, findOptions?: FindOptions) => findAll(container, selector, findOptions),
+    watchSpy: <V = any>(propName: string) => watchSpy<V>(element, propName),
+    ...bindQueries(() => container),
   };
+  mountedStage.result = result;
+
+  return result;
+}
+
+/**
+ * Render several fixtures, each into its own stage
+ */
+export async function renderAll<T extends HTMLElement = HTMLElement, I = any>(
+  vnodes: any[],
+  options: RenderOptions = {},
+): Promise<RenderResult<T, I>[]> {
+  const results: RenderResult<T, I>[] = [];
+  for (const vnode of vnodes) {
+    results.push(await render<T, I>(vnode, options));
+  }
+  return results;
 }
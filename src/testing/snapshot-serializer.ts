@@ -1,13 +1,15 @@
 /**
- * Custom snapshot serializer for Stencil components
+ * Custom snapshot serializers for Stencil components
  *
  * Formats HTMLElements with shadow DOM using the same serialization
- * as our toEqualHtml matcher, ensuring consistent <mock:shadow-root> output
+ * as our toEqualHtml matcher, ensuring consistent <mock:shadow-root> output,
+ * and event timelines recorded by `recordEvents()`
  */
 
 import type { SnapshotSerializer } from 'vitest';
 import { expect } from 'vitest';
 import { serializeHtml } from './html-serializer.js';
+import type { EventTimeline } from '../types.js';
 
 /**
  * Vitest snapshot serializer for Stencil components
@@ -47,6 +49,30 @@ export const StencilSnapshotSerializer: SnapshotSerializer = {
   },
 };
 
+/**
+ * Vitest snapshot serializer for event timelines.
+ * Prints each event's name and detail in order, leaving out timestamps so snapshots are stable
+ */
+export const EventTimelineSerializer: SnapshotSerializer = {
+  test(val: any): boolean {
+    return !!val && typeof val === 'object' && Array.isArray(val.entries) && Array.isArray(val.eventNames);
+  },
+
+  serialize(val: EventTimeline<any>, config, indentation, depth, refs, printer): string {
+    if (val.entries.length === 0) {
+      return 'EventTimeline []';
+    }
+
+    const inner = indentation + config.indent;
+    const entries = val.entries.map(({ eventName, detail }) =>
+      detail == null
+        ? `${inner}${eventName}`
+        : `${inner}${eventName}: ${printer(detail, config, inner, depth + 1, refs)}`,
+    );
+    return `EventTimeline [\n${entries.join(',\n')},\n${indentation}]`;
+  },
+};
+
 /**
  * Default export for convenience
  */
@@ -54,6 +80,7 @@ export default StencilSnapshotSerializer;
 
 export function installMatchers() {
   expect.addSnapshotSerializer(StencilSnapshotSerializer);
+  expect.addSnapshotSerializer(EventTimelineSerializer);
 }
 
 installMatchers();
@@ -0,0 +1,10 @@
+/**
+ * Type declarations for the parts of Stencil's internal client runtime used by the test utilities.
+ * The internal runtime ships without types and may change between Stencil versions.
+ */
+declare module '@stencil/core/internal/client' {
+  /**
+   * Patch a host element's rendered VNode tree with a new one
+   */
+  export function renderVdom(hostRef: any, renderFnResults: any, isInitialLoad?: boolean): void;
+}
@@ -0,0 +1,164 @@
+/**
+ * Helpers for reading the state Stencil's runtime keeps on each host element
+ *
+ * Host refs are reached through `__stencil__getHostRef`. Production builds mangle
+ * the `$...$` field names, so the fields are also looked up by their shape, and
+ * callers must cope with a missing host ref.
+ */
+
+/**
+ * Host ref flags, mirroring `HOST_FLAGS` in Stencil's runtime
+ */
+const HOST_FLAGS = {
+  hasConnected: 1 << 0,
+  isQueuedForUpdate: 1 << 4,
+  hasLoadedComponent: 1 << 6,
+  needsRerender: 1 << 9,
+} as const;
+
+/**
+ * Member flags, mirroring `MEMBER_FLAGS` in Stencil's runtime
+ */
+const MEMBER_FLAGS = {
+  // String | Number | Boolean | Any | Unknown
+  prop: (1 << 5) - 1,
+  state: 1 << 5,
+} as const;
+
+/**
+ * Get Stencil's host ref for a component element, if the build exposes it
+ */
+export function getHostRef(elm: any): any {
+  return typeof elm?.__stencil__getHostRef === 'function' ? elm.__stencil__getHostRef() : undefined;
+}
+
+/**
+ * Get a host ref's flags. `registerHost()` creates them as the first field of the host ref, and its only number,
+ * which is how they are found in production builds
+ */
+function getHostFlags(hostRef: any): number | undefined {
+  if (!hostRef) return undefined;
+  if (typeof hostRef.$flags$ === 'number') return hostRef.$flags$;
+  return Object.values(hostRef).find((value): value is number => typeof value === 'number');
+}
+
+/**
+ * Check whether an element's shadow root delegates focus. The node environments' setup keeps
+ * `delegatesFocus` on the shadow roots they create
+ */
+export function delegatesFocus(elm: Element): boolean {
+  return !!(elm.shadowRoot as any)?.delegatesFocus;
+}
+
+/**
+ * Get the map Stencil keeps a component's prop and state values in.
+ * `registerHost()` creates it as the first map on the host ref, which is how it is found in production builds
+ */
+export function getInstanceValues(hostRef: any): Map<string, any> | undefined {
+  return hostRef.$instanceValues$ ?? Object.values(hostRef).find((value) => value instanceof Map);
+}
+
+/**
+ * Get a component's compiled metadata. In production builds it is found as the host ref's object
+ * holding the component's tag name
+ */
+function getComponentMeta(elm: Element, hostRef: any): any {
+  if (hostRef.$cmpMeta$) return hostRef.$cmpMeta$;
+
+  const tagName = elm.tagName.toLowerCase();
+  return Object.values(hostRef).find(
+    (value: any) =>
+      !!value &&
+      typeof value === 'object' &&
+      Object.getPrototypeOf(value) === Object.prototype &&
+      Object.values(value).includes(tagName),
+  );
+}
+
+/**
+ * Get the names of a component's `@Prop()` and `@State()` members, if the build exposes its metadata.
+ * In production builds the members are the metadata's first object of `[flags, ...]` entries
+ */
+export function getWatchableMembers(elm: Element, hostRef: any): string[] | undefined {
+  const meta = getComponentMeta(elm, hostRef);
+  if (!meta) return undefined;
+
+  const members: Record<string, [number]> | undefined =
+    meta.$members$ ??
+    Object.values(meta).find(
+      (value: any) =>
+        !!value &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.values(value).every((entry: any) => Array.isArray(entry) && typeof entry[0] === 'number'),
+    );
+  if (!members) return undefined;
+
+  return Object.keys(members).filter((name) => members[name][0] & (MEMBER_FLAGS.prop | MEMBER_FLAGS.state));
+}
+
+/**
+ * Collect the Stencil components within an element, including those inside open shadow roots
+ */
+export function collectComponents(elm: Element | ShadowRoot, components: HTMLElement[] = []): HTMLElement[] {
+  Array.from(elm.children).forEach((child: any) => {
+    if (typeof child.__stencil__getHostRef === 'function') {
+      components.push(child);
+    }
+    if (child.shadowRoot) {
+      collectComponents(child.shadowRoot, components);
+    }
+    collectComponents(child, components);
+  });
+  return components;
+}
+
+/**
+ * Check whether a component still has work scheduled: it is connected but has not finished loading,
+ * or an update is queued or waiting to re-render
+ */
+export function isComponentPending(elm: HTMLElement): boolean {
+  const flags = getHostFlags(getHostRef(elm));
+  if (flags === undefined) {
+    throw new Error(
+      `Unable to tell whether <${elm.tagName.toLowerCase()}> has pending updates: its Stencil build does not expose the host flags`,
+    );
+  }
+
+  if (flags & HOST_FLAGS.hasConnected && !(flags & HOST_FLAGS.hasLoadedComponent)) {
+    return true;
+  }
+  return !!(flags & (HOST_FLAGS.isQueuedForUpdate | HOST_FLAGS.needsRerender));
+}
+
+/**
+ * Get the component class instance behind a Stencil element.
+ *
+ * Lazy (`dist`) builds keep the instance separate from the host element; `dist-custom-elements`
+ * builds use the host element itself as the instance. Lazy instances exist once the component has
+ * started loading, before that the host element is returned
+ *
+ * @example
+ * ```ts
+ * const card = getInstance<MyCard>(root.querySelector('my-card'));
+ * ```
+ */
+export function getInstance<T = any>(elm: Element): T {
+  const hostRef = getHostRef(elm);
+  if (!hostRef) {
+    const name = elm?.tagName ? `<${elm.tagName.toLowerCase()}>` : String(elm);
+    throw new Error(`getInstance() expects a Stencil component element, received ${name}`);
+  }
+
+  // The lazy instance is registered with the same host ref. Look it up by identity rather than by
+  // `$lazyInstance$` so production builds, which mangle the field names, are supported too
+  const instance = Object.values(hostRef).find(
+    (value: any) =>
+      value !== elm &&
+      !!value &&
+      typeof value === 'object' &&
+      typeof value.__stencil__getHostRef === 'function' &&
+      value.__stencil__getHostRef() === hostRef,
+  );
+  return (instance ?? elm) as T;
+}
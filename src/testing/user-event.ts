@@ -0,0 +1,623 @@
+/**
+ * User event simulation
+ *
+ * `userEvent` drives components the way a user would in mock-doc, jsdom and happy-dom: pointer and mouse
+ * sequences that move focus, typing into inputs (including inside shadow roots) with `input` and `change`
+ * events, keyboard shortcuts, and Tab navigation that honours `tabindex` and `delegatesFocus`.
+ * Every action waits for the components it touched to re-render. In browser mode the same calls are passed
+ * to `userEvent` from `vitest/browser`, which drives the real browser, and wait the same way.
+ */
+
+import type { UserEventTabOptions, UserEventTypeOptions } from '../types.js';
+import { createEvent } from './fire-event.js';
+import { isVisible, slotContent } from './queries.js';
+import { waitForChanges } from './render.js';
+import { delegatesFocus } from './stencil-runtime.js';
+
+interface Selection {
+  /**
+   * Value the selection was recorded against. It is dropped once the value changes from elsewhere
+   */
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface KeyAction {
+  key: string;
+  /**
+   * `{/Shift}`: only release the key
+   */
+  release: boolean;
+  /**
+   * `{Shift>}`: only press the key, keeping it held
+   */
+  hold: boolean;
+}
+
+// Element focused through `userEvent` in DOMs that do not track focus themselves (mock-doc)
+let trackedFocus: Element | null = null;
+
+// Element under the simulated pointer
+let hovered: Element | null = null;
+
+// Keys currently held down
+const heldKeys = new Set<string>();
+
+// Values of editable elements when they gained focus, to fire `change` when they lose it
+const valuesOnFocus = new WeakMap<Element, string>();
+
+// Caret position and selection within editable elements
+const selections = new WeakMap<Element, Selection>();
+
+const KEY_CODES: Record<string, string> = {
+  ' ': 'Space',
+  Alt: 'AltLeft',
+  Control: 'ControlLeft',
+  Meta: 'MetaLeft',
+  Shift: 'ShiftLeft',
+};
+
+const TEXT_INPUT_TYPES = new Set(['', 'email', 'number', 'password', 'search', 'tel', 'text', 'url']);
+
+const BUTTON_INPUT_TYPES = new Set(['button', 'checkbox', 'image', 'radio', 'reset', 'submit']);
+
+const FORM_CONTROLS = new Set(['button', 'fieldset', 'input', 'optgroup', 'option', 'select', 'textarea']);
+
+/**
+ * Check whether tests run in a real browser, where `vitest/browser` drives the page
+ */
+export function isBrowserMode(): boolean {
+  return typeof process === 'undefined' || typeof process.cwd !== 'function';
+}
+
+/**
+ * The browser's `userEvent`: from `vitest/browser` in Vitest 4, or `@vitest/browser/context` in Vitest 2 and 3,
+ * where `vitest/browser` holds internals
+ */
+async function browserUserEvent(): Promise<any> {
+  const { userEvent } = (await import('vitest/browser')) as any;
+  if (userEvent) return userEvent;
+  return ((await import('@vitest/browser/context')) as any).userEvent;
+}
+
+/**
+ * Run an action with the browser's `userEvent`, then wait for the components it touched to re-render
+ */
+async function inBrowser(action: (browserEvent: any) => Promise<unknown>): Promise<void> {
+  await action(await browserUserEvent());
+  await waitForChanges();
+}
+
+/**
+ * Dispatch an event, returning `false` when a listener prevented its default action
+ */
+function dispatch(target: EventTarget, event: Event): boolean {
+  target.dispatchEvent(event);
+  return !event.defaultPrevented;
+}
+
+function modifiers() {
+  return {
+    altKey: heldKeys.has('Alt'),
+    ctrlKey: heldKeys.has('Control'),
+    metaKey: heldKeys.has('Meta'),
+    shiftKey: heldKeys.has('Shift'),
+  };
+}
+
+function mouseInit(detail = 0, buttons = 0) {
+  return { bubbles: true, cancelable: true, composed: true, button: 0, buttons, detail, ...modifiers() };
+}
+
+function isConnected(node: Node): boolean {
+  let current: any = node;
+  while (current) {
+    if (current.nodeType === 9) return true;
+    current = current.parentNode ?? current.host;
+  }
+  return false;
+}
+
+function tagOf(elm: Element): string {
+  return elm.tagName.toLowerCase();
+}
+
+function inputType(elm: Element): string {
+  return (elm.getAttribute('type') ?? 'text').toLowerCase();
+}
+
+function isDisabled(elm: Element): boolean {
+  return FORM_CONTROLS.has(tagOf(elm)) && elm.hasAttribute('disabled');
+}
+
+/**
+ * Check whether typing edits an element's value
+ */
+function isEditable(elm: Element | null): elm is HTMLInputElement {
+  if (!elm || isDisabled(elm) || elm.hasAttribute('readonly')) return false;
+  return tagOf(elm) === 'textarea' || (tagOf(elm) === 'input' && TEXT_INPUT_TYPES.has(inputType(elm)));
+}
+
+function isCheckable(elm: Element): elm is HTMLInputElement {
+  return tagOf(elm) === 'input' && (inputType(elm) === 'checkbox' || inputType(elm) === 'radio');
+}
+
+/**
+ * Check whether Enter and Space activate an element
+ */
+function isButtonLike(elm: Element): boolean {
+  const tag = tagOf(elm);
+  return tag === 'button' || tag === 'summary' || (tag === 'input' && BUTTON_INPUT_TYPES.has(inputType(elm)));
+}
+
+function isFocusable(elm: Element): boolean {
+  if (isDisabled(elm) || !isVisible(elm)) return false;
+  if (elm.hasAttribute('tabindex')) return true;
+
+  switch (tagOf(elm)) {
+    case 'button':
+    case 'iframe':
+    case 'select':
+    case 'summary':
+    case 'textarea':
+      return true;
+    case 'input':
+      return inputType(elm) !== 'hidden';
+    case 'a':
+    case 'area':
+      return elm.hasAttribute('href');
+    default:
+      return elm.getAttribute('contenteditable') === '' || elm.getAttribute('contenteditable') === 'true';
+  }
+}
+
+function tabIndexOf(elm: Element): number {
+  return parseInt(elm.getAttribute('tabindex') ?? '0', 10) || 0;
+}
+
+/**
+ * Visit elements in the order they are rendered: shadow roots in place of their host's children,
+ * and slots replaced by the nodes assigned to them
+ */
+function walkFlatTree(node: Node, visit: (elm: Element) => void) {
+  const children = (node as Element).shadowRoot?.childNodes ?? node.childNodes;
+  Array.from(children).forEach((child) => {
+    if (child.nodeType !== 1) return;
+
+    const elm = child as Element;
+    if (tagOf(elm) === 'slot') {
+      slotContent(elm).forEach((assigned) => {
+        if (assigned.nodeType !== 1) return;
+        visit(assigned as Element);
+        walkFlatTree(assigned, visit);
+      });
+      return;
+    }
+    visit(elm);
+    walkFlatTree(elm, visit);
+  });
+}
+
+/**
+ * Elements Tab moves through: positive `tabindex` values first, then the rest in rendered order.
+ * Hosts that delegate focus are skipped in favour of their shadow content
+ */
+function tabSequence(): Element[] {
+  const elements: Element[] = [];
+  walkFlatTree(document.body, (elm) => {
+    if (isFocusable(elm) && tabIndexOf(elm) >= 0 && !delegatesFocus(elm)) {
+      elements.push(elm);
+    }
+  });
+
+  const positive = elements.filter((elm) => tabIndexOf(elm) > 0).sort((a, b) => tabIndexOf(a) - tabIndexOf(b));
+  return [...positive, ...elements.filter((elm) => tabIndexOf(elm) === 0)];
+}
+
+/**
+ * The element that receives focus when an element is pressed: the element itself or its nearest
+ * focusable ancestor across shadow roots, or the first focusable element of a host that delegates focus
+ */
+function focusTargetFor(elm: Element): Element | null {
+  let current: any = elm;
+  while (current) {
+    if (current.nodeType === 1) {
+      if (isFocusable(current) && !delegatesFocus(current)) return current;
+      if (delegatesFocus(current)) {
+        let first: Element | null = null;
+        walkFlatTree(current, (child) => {
+          if (!first && isFocusable(child)) first = child;
+        });
+        if (first) return first;
+      }
+    }
+    current = current.parentNode ?? current.host;
+  }
+  return null;
+}
+
+/**
+ * The focused element, looking inside shadow roots. `null` when nothing (or the body) has focus
+ */
+function getActiveElement(): Element | null {
+  if (document.activeElement === undefined) {
+    return trackedFocus && isConnected(trackedFocus) ? trackedFocus : null;
+  }
+
+  let active: any = document.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active === document.body ? null : active;
+}
+
+/**
+ * Fire `change` on an element losing focus if its value changed while it had focus
+ */
+function commitChange(elm: Element) {
+  if (!valuesOnFocus.has(elm)) return;
+
+  const initial = valuesOnFocus.get(elm);
+  valuesOnFocus.delete(elm);
+  if (String((elm as HTMLInputElement).value ?? '') !== initial) {
+    dispatch(elm, createEvent('change', { bubbles: true }, 'Event'));
+  }
+}
+
+/**
+ * Move focus to an element, or away from the focused element with `null`.
+ * DOMs that track focus fire the focus events themselves; for mock-doc they are dispatched here
+ */
+function moveFocus(next: Element | null) {
+  const previous = getActiveElement();
+  if (previous === next) return;
+  if (previous) commitChange(previous);
+
+  if (document.activeElement !== undefined) {
+    if (next) (next as HTMLElement).focus();
+    else (previous as HTMLElement | null)?.blur();
+  } else {
+    trackedFocus = next;
+    const init = { composed: true, relatedTarget: null as Element | null };
+    if (previous) {
+      dispatch(previous, createEvent('blur', { ...init, relatedTarget: next }, 'FocusEvent'));
+      dispatch(previous, createEvent('focusout', { ...init, bubbles: true, relatedTarget: next }, 'FocusEvent'));
+    }
+    if (next) {
+      dispatch(next, createEvent('focus', { ...init, relatedTarget: previous }, 'FocusEvent'));
+      dispatch(next, createEvent('focusin', { ...init, bubbles: true, relatedTarget: previous }, 'FocusEvent'));
+    }
+  }
+
+  if (isEditable(next)) {
+    valuesOnFocus.set(next, String(next.value ?? ''));
+  }
+}
+
+function pointerOut(elm: Element, related: Element | null) {
+  const init = { ...mouseInit(), relatedTarget: related };
+  dispatch(elm, createEvent('pointerout', init, 'PointerEvent', 'MouseEvent'));
+  dispatch(elm, createEvent('pointerleave', { ...init, bubbles: false }, 'PointerEvent', 'MouseEvent'));
+  dispatch(elm, createEvent('mouseout', init, 'MouseEvent'));
+  dispatch(elm, createEvent('mouseleave', { ...init, bubbles: false }, 'MouseEvent'));
+  hovered = null;
+}
+
+function pointerOver(elm: Element) {
+  if (hovered === elm) return;
+
+  const previous = hovered && isConnected(hovered) ? hovered : null;
+  if (previous) pointerOut(previous, elm);
+
+  const init = { ...mouseInit(), relatedTarget: previous };
+  dispatch(elm, createEvent('pointerover', init, 'PointerEvent', 'MouseEvent'));
+  dispatch(elm, createEvent('pointerenter', { ...init, bubbles: false }, 'PointerEvent', 'MouseEvent'));
+  dispatch(elm, createEvent('mouseover', init, 'MouseEvent'));
+  dispatch(elm, createEvent('mouseenter', { ...init, bubbles: false }, 'MouseEvent'));
+  hovered = elm;
+}
+
+/**
+ * Fire `click`, then toggle checkboxes and radios when the DOM implementation did not (mock-doc)
+ */
+function activate(elm: Element, detail: number) {
+  const checked = isCheckable(elm) ? elm.checked : undefined;
+  const proceed = dispatch(elm, createEvent('click', mouseInit(detail), 'PointerEvent', 'MouseEvent'));
+  if (!isCheckable(elm) || !proceed || elm.checked !== checked) return;
+  if (inputType(elm) === 'radio' && checked) return;
+
+  if (inputType(elm) === 'radio') {
+    const name = elm.getAttribute('name');
+    const root: any = elm.getRootNode?.() ?? document;
+    Array.from<HTMLInputElement>(root.querySelectorAll('input[type="radio"]'))
+      .filter((radio) => name && radio.getAttribute('name') === name)
+      .forEach((radio) => (radio.checked = false));
+  }
+  elm.checked = !checked;
+  dispatch(elm, createEvent('input', { bubbles: true, composed: true }, 'Event'));
+  dispatch(elm, createEvent('change', { bubbles: true }, 'Event'));
+}
+
+/**
+ * Press and release the primary pointer button on an element, moving focus on the way
+ */
+function pressPointer(elm: Element, detail: number) {
+  pointerOver(elm);
+  const disabled = isDisabled(elm);
+
+  dispatch(elm, createEvent('pointerdown', mouseInit(detail, 1), 'PointerEvent', 'MouseEvent'));
+  if (!disabled && dispatch(elm, createEvent('mousedown', mouseInit(detail, 1), 'MouseEvent'))) {
+    moveFocus(focusTargetFor(elm));
+  }
+
+  dispatch(elm, createEvent('pointerup', mouseInit(detail), 'PointerEvent', 'MouseEvent'));
+  if (!disabled) {
+    dispatch(elm, createEvent('mouseup', mouseInit(detail), 'MouseEvent'));
+    activate(elm, detail);
+  }
+}
+
+function getSelection(elm: HTMLInputElement): Selection {
+  const value = String(elm.value ?? '');
+  const selection = selections.get(elm);
+  return selection?.value === value ? selection : { value, start: value.length, end: value.length };
+}
+
+/**
+ * Edit the value of an input or textarea at its selection, firing `beforeinput` and `input`
+ */
+function edit(elm: HTMLInputElement, inputType: string, data = '') {
+  const { value } = getSelection(elm);
+  let { start, end } = getSelection(elm);
+  if (start === end && inputType === 'deleteContentBackward') start = Math.max(0, start - 1);
+  if (start === end && inputType === 'deleteContentForward') end = Math.min(value.length, end + 1);
+
+  const maxLength = elm.hasAttribute('maxlength') ? Number(elm.getAttribute('maxlength')) : Infinity;
+  const text = data.slice(0, Math.max(0, maxLength - (value.length - (end - start))));
+  const next = value.slice(0, start) + text + value.slice(end);
+  if (next === value) return;
+
+  const init = { bubbles: true, composed: true, inputType, data: text || null };
+  if (!dispatch(elm, createEvent('beforeinput', { ...init, cancelable: true }, 'InputEvent'))) return;
+
+  elm.value = next;
+  const caret = start + text.length;
+  selections.set(elm, { value: next, start: caret, end: caret });
+  dispatch(elm, createEvent('input', init, 'InputEvent', 'Event'));
+}
+
+function moveCaret(elm: HTMLInputElement, key: string) {
+  const { value, start, end } = getSelection(elm);
+  const caret =
+    key === 'Home'
+      ? 0
+      : key === 'End'
+        ? value.length
+        : key === 'ArrowLeft'
+          ? Math.max(0, start === end ? start - 1 : start)
+          : Math.min(value.length, start === end ? end + 1 : end);
+  selections.set(elm, { value, start: caret, end: caret });
+}
+
+/**
+ * Move focus to the next (or previous) element in the Tab sequence. Past either end focus leaves
+ * the page, as it would for the browser's UI, and the next Tab starts again from the other end
+ */
+function tabFocus(backwards: boolean) {
+  const sequence = tabSequence();
+  const active = getActiveElement();
+  const index = active ? sequence.indexOf(active) : -1;
+
+  if (index === -1) {
+    moveFocus((backwards ? sequence[sequence.length - 1] : sequence[0]) ?? null);
+  } else {
+    moveFocus(sequence[backwards ? index - 1 : index + 1] ?? null);
+  }
+}
+
+/**
+ * What a key does when `keydown` was not prevented
+ */
+function keyDefault(target: Element, key: string) {
+  const shortcut = heldKeys.has('Control') || heldKeys.has('Meta') || heldKeys.has('Alt');
+
+  if (key === 'Tab') {
+    tabFocus(heldKeys.has('Shift'));
+  } else if (isEditable(target)) {
+    const { value } = getSelection(target);
+    if (shortcut) {
+      if (key.toLowerCase() === 'a') selections.set(target, { value, start: 0, end: value.length });
+    } else if (key.length === 1) {
+      edit(target, 'insertText', key);
+    } else if (key === 'Backspace') {
+      edit(target, 'deleteContentBackward');
+    } else if (key === 'Delete') {
+      edit(target, 'deleteContentForward');
+    } else if (key === 'Enter' && tagOf(target) === 'textarea') {
+      edit(target, 'insertLineBreak', '\n');
+    } else if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(key)) {
+      moveCaret(target, key);
+    }
+  } else if (key === 'Enter' && (isButtonLike(target) || (tagOf(target) === 'a' && target.hasAttribute('href')))) {
+    if (!isCheckable(target)) activate(target, 0);
+  }
+}
+
+function keyInit(key: string) {
+  return { key, code: keyCode(key), bubbles: true, cancelable: true, composed: true, ...modifiers() };
+}
+
+function keyCode(key: string): string {
+  if (KEY_CODES[key]) return KEY_CODES[key];
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return `Digit${key}`;
+  return key.length === 1 ? '' : key;
+}
+
+function keyDown(key: string) {
+  heldKeys.add(key);
+  const target = getActiveElement() ?? document.body;
+  if (dispatch(target, createEvent('keydown', keyInit(key), 'KeyboardEvent'))) {
+    keyDefault(target, key);
+  }
+}
+
+function keyUp(key: string) {
+  heldKeys.delete(key);
+  const target = getActiveElement() ?? document.body;
+  // Space activates buttons, checkboxes and radios when it is released
+  if (dispatch(target, createEvent('keyup', keyInit(key), 'KeyboardEvent')) && key === ' ' && isButtonLike(target)) {
+    activate(target, 0);
+  }
+}
+
+/**
+ * Parse `user-event` keyboard syntax: characters, `{Key}`, `{Key>}` to hold a key, `{/Key}` to release it,
+ * and `{{` for a literal `{`
+ */
+function parseKeys(text: string): KeyAction[] {
+  const actions: KeyAction[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '{' && text[i + 1] !== '{') {
+      const end = text.indexOf('}', i);
+      if (end === -1) {
+        throw new Error(`userEvent.keyboard(): "${text}" has a "{" without a closing "}". Type "{{" for a literal "{"`);
+      }
+
+      let key = text.slice(i + 1, end);
+      const release = key.startsWith('/');
+      const hold = key.endsWith('>');
+      key = key.slice(release ? 1 : 0, hold ? -1 : undefined);
+      actions.push({ key: key === 'Space' ? ' ' : key, release, hold });
+      i = end + 1;
+    } else {
+      actions.push({ key: text[i], release: false, hold: false });
+      i += text[i] === '{' ? 2 : 1;
+    }
+  }
+  return actions;
+}
+
+/**
+ * Press keys on the focused element, letting components re-render after each one
+ */
+async function pressKeys(text: string) {
+  for (const { key, release, hold } of parseKeys(text)) {
+    if (!release) keyDown(key);
+    if (!hold) keyUp(key);
+    await waitForChanges();
+  }
+}
+
+/**
+ * Forget the focus, pointer and keyboard state kept between actions. Called by `cleanup()`
+ */
+export function resetUserEvent() {
+  trackedFocus = null;
+  hovered = null;
+  heldKeys.clear();
+}
+
+/**
+ * Simulate user interactions. Each action fires the events a browser would, in order, then waits for
+ * components to re-render. In browser mode the calls are passed to `userEvent` from `vitest/browser`
+ *
+ * @example
+ * ```ts
+ * await userEvent.type(root, 'hello{Enter}'); // types into the input inside <my-input>'s shadow root
+ * await userEvent.keyboard('{Control>}a{/Control}{Backspace}');
+ * await userEvent.tab();
+ * await userEvent.click(screen.getByRole('button', { name: 'Save' }));
+ * ```
+ */
+export const userEvent = {
+  /**
+   * Move the pointer over an element and click it, focusing it (or its nearest focusable ancestor)
+   */
+  async click(element: Element): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.click(element));
+    pressPointer(element, 1);
+    await waitForChanges();
+  },
+
+  /**
+   * Click an element twice, then fire `dblclick`
+   */
+  async dblClick(element: Element): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.dblClick(element));
+    pressPointer(element, 1);
+    pressPointer(element, 2);
+    if (!isDisabled(element)) {
+      dispatch(element, createEvent('dblclick', mouseInit(2), 'MouseEvent'));
+    }
+    await waitForChanges();
+  },
+
+  /**
+   * Move the pointer over an element
+   */
+  async hover(element: Element): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.hover(element));
+    pointerOver(element);
+    await waitForChanges();
+  },
+
+  /**
+   * Move the pointer away from an element
+   */
+  async unhover(element: Element): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.unhover(element));
+    pointerOut(element, null);
+    await waitForChanges();
+  },
+
+  /**
+   * Click an element, then type into whatever received focus: the element, or the first focusable element
+   * of a host that delegates focus. Supports the same syntax as `keyboard()`
+   */
+  async type(element: Element, text: string, options: UserEventTypeOptions = {}): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.type(element, text, options));
+    if (options.skipClick) {
+      moveFocus(focusTargetFor(element));
+    } else {
+      pressPointer(element, 1);
+    }
+    await waitForChanges();
+    await pressKeys(text);
+  },
+
+  /**
+   * Focus an element and delete its value
+   */
+  async clear(element: Element): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.clear(element));
+    moveFocus(focusTargetFor(element));
+
+    const target = getActiveElement();
+    if (isEditable(target)) {
+      const { value } = getSelection(target);
+      selections.set(target, { value, start: 0, end: value.length });
+      edit(target, 'deleteContentBackward');
+    }
+    await waitForChanges();
+  },
+
+  /**
+   * Press keys on the focused element (or the body): characters, `{Enter}` and other named keys,
+   * `{Shift>}` to hold a key, `{/Shift}` to release it, and `{{` for a literal `{`
+   */
+  async keyboard(text: string): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.keyboard(text));
+    await pressKeys(text);
+  },
+
+  /**
+   * Press Tab (or Shift+Tab) to move focus through the page, across shadow roots
+   */
+  async tab(options: UserEventTabOptions = {}): Promise<void> {
+    if (isBrowserMode()) return inBrowser((browserEvent) => browserEvent.tab(options));
+    await pressKeys(options.shift ? '{Shift>}{Tab}{/Shift}' : '{Tab}');
+  },
+};
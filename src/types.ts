@@ -1,7 +1,7 @@
 /**
- * Event spy for testing custom events
+ * Event spy for testing custom and native events
  */
-export interface EventSpy {
+export interface EventSpy<E extends Event = CustomEvent> {
   /**
    * Name of the event being spied on
    */
@@ -10,22 +10,421 @@ export interface EventSpy {
   /**
    * All events that have been received
    */
-  events: CustomEvent[];
+  events: E[];
 
   /**
    * First event received (if any)
    */
-  firstEvent: CustomEvent | undefined;
+  firstEvent: E | undefined;
 
   /**
    * Last event received (if any)
    */
-  lastEvent: CustomEvent | undefined;
+  lastEvent: E | undefined;
 
   /**
    * Number of events received
    */
   length: number;
+
+  /**
+   * Forget the events received so far. The spy keeps listening
+   */
+  reset: () => void;
+
+  /**
+   * Stop listening. Events received so far are kept
+   */
+  dispose: () => void;
+}
+
+/**
+ * An event recorded by `recordEvents()`
+ */
+export interface TimelineEntry<E extends Event = CustomEvent> {
+  /**
+   * Name of the event
+   */
+  eventName: string;
+
+  /**
+   * The event itself
+   */
+  event: E;
+
+  /**
+   * The event's `detail`, for custom events
+   */
+  detail: any;
+
+  /**
+   * `performance.now()` when the event was received
+   */
+  timestamp: number;
+}
+
+/**
+ * Ordered timeline of several events, recorded by `recordEvents()`.
+ * `events`, `firstEvent`, `lastEvent` and `length` cover every recorded event
+ */
+export interface EventTimeline<E extends Event = CustomEvent> extends Omit<EventSpy<E>, 'eventName'> {
+  /**
+   * Names of the events being recorded
+   */
+  eventNames: string[];
+
+  /**
+   * Every event received, in order
+   */
+  entries: TimelineEntry<E>[];
+}
+
+/**
+ * Options for `spyOnEvent()`
+ */
+export interface SpyOnEventOptions {
+  /**
+   * Listen in the capture phase, e.g. to see events before a component stops their propagation
+   * @default false
+   */
+  capture?: boolean;
+
+  /**
+   * Stop listening after the first event
+   * @default false
+   */
+  once?: boolean;
+}
+
+/**
+ * Options for `waitForEvent()`
+ */
+export interface WaitForEventOptions<E extends Event = CustomEvent> {
+  /**
+   * Milliseconds to wait before rejecting
+   * @default 1000
+   */
+  timeout?: number;
+
+  /**
+   * Only resolve with an event whose detail matches
+   */
+  predicate?: (detail: any, event: E) => boolean;
+}
+
+/**
+ * Options for `find()` and `findAll()`
+ */
+export interface FindOptions {
+  /**
+   * Search inside every open shadow root, not just the light DOM (and shadow roots stepped into with `>>>`)
+   * @default false
+   */
+  deep?: boolean;
+}
+
+/**
+ * Text to match in Testing Library style queries: an exact string (whitespace is collapsed),
+ * a regular expression, or a function called with the text and the element
+ */
+export type TextMatch = string | RegExp | ((content: string, element: Element) => boolean);
+
+/**
+ * Options for `*ByText()`, `*ByLabelText()` and `*ByTestId()` queries
+ */
+export interface MatchOptions {
+  /**
+   * Match strings exactly (after collapsing whitespace). When `false`, match a case-insensitive substring
+   * @default true
+   */
+  exact?: boolean;
+}
+
+/**
+ * Options for `*ByText()` queries
+ */
+export interface ByTextOptions extends MatchOptions {
+  /**
+   * Only match elements matching this selector
+   * @default '*'
+   */
+  selector?: string;
+}
+
+/**
+ * Options for `*ByRole()` queries
+ */
+export interface ByRoleOptions extends MatchOptions {
+  /**
+   * Accessible name of the element: its `aria-labelledby` or `aria-label`, its labels, or its text content
+   */
+  name?: TextMatch;
+
+  /**
+   * Heading level, for the `heading` role
+   */
+  level?: number;
+
+  /**
+   * Include elements hidden from assistive technology (`hidden`, `aria-hidden="true"`, inline `display: none`)
+   * @default false
+   */
+  hidden?: boolean;
+}
+
+/**
+ * Testing Library style queries bound to a container. They search inside open shadow roots.
+ *
+ * - `getBy*` returns the only match and throws when there are none or several
+ * - `getAllBy*` returns every match and throws when there are none
+ * - `queryBy*` returns the only match or `null`, and throws when there are several
+ * - `queryAllBy*` returns every match, possibly none
+ * - `findBy*` and `findAllBy*` retry `getBy*` and `getAllBy*` until they succeed or time out
+ */
+export interface BoundQueries {
+  getByRole<E extends Element = HTMLElement>(role: string, options?: ByRoleOptions): E;
+  getAllByRole<E extends Element = HTMLElement>(role: string, options?: ByRoleOptions): E[];
+  queryByRole<E extends Element = HTMLElement>(role: string, options?: ByRoleOptions): E | null;
+  queryAllByRole<E extends Element = HTMLElement>(role: string, options?: ByRoleOptions): E[];
+  findByRole<E extends Element = HTMLElement>(
+    role: string,
+    options?: ByRoleOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E>;
+  findAllByRole<E extends Element = HTMLElement>(
+    role: string,
+    options?: ByRoleOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E[]>;
+
+  getByText<E extends Element = HTMLElement>(text: TextMatch, options?: ByTextOptions): E;
+  getAllByText<E extends Element = HTMLElement>(text: TextMatch, options?: ByTextOptions): E[];
+  queryByText<E extends Element = HTMLElement>(text: TextMatch, options?: ByTextOptions): E | null;
+  queryAllByText<E extends Element = HTMLElement>(text: TextMatch, options?: ByTextOptions): E[];
+  findByText<E extends Element = HTMLElement>(
+    text: TextMatch,
+    options?: ByTextOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E>;
+  findAllByText<E extends Element = HTMLElement>(
+    text: TextMatch,
+    options?: ByTextOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E[]>;
+
+  getByLabelText<E extends Element = HTMLElement>(text: TextMatch, options?: MatchOptions): E;
+  getAllByLabelText<E extends Element = HTMLElement>(text: TextMatch, options?: MatchOptions): E[];
+  queryByLabelText<E extends Element = HTMLElement>(text: TextMatch, options?: MatchOptions): E | null;
+  queryAllByLabelText<E extends Element = HTMLElement>(text: TextMatch, options?: MatchOptions): E[];
+  findByLabelText<E extends Element = HTMLElement>(
+    text: TextMatch,
+    options?: MatchOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E>;
+  findAllByLabelText<E extends Element = HTMLElement>(
+    text: TextMatch,
+    options?: MatchOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E[]>;
+
+  getByTestId<E extends Element = HTMLElement>(testId: TextMatch, options?: MatchOptions): E;
+  getAllByTestId<E extends Element = HTMLElement>(testId: TextMatch, options?: MatchOptions): E[];
+  queryByTestId<E extends Element = HTMLElement>(testId: TextMatch, options?: MatchOptions): E | null;
+  queryAllByTestId<E extends Element = HTMLElement>(testId: TextMatch, options?: MatchOptions): E[];
+  findByTestId<E extends Element = HTMLElement>(
+    testId: TextMatch,
+    options?: MatchOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E>;
+  findAllByTestId<E extends Element = HTMLElement>(
+    testId: TextMatch,
+    options?: MatchOptions,
+    waitOptions?: WaitForOptions,
+  ): Promise<E[]>;
+}
+
+/**
+ * A recorded change of a watched prop or state member
+ */
+export interface PropChange<V = any> {
+  /**
+   * Value after the change
+   */
+  newValue: V;
+
+  /**
+   * Value before the change
+   */
+  oldValue: V | undefined;
+
+  /**
+   * Whether the component has rendered since the change.
+   * Becomes `true` once the update cycle following the change renders the component
+   */
+  rendered: boolean;
+}
+
+/**
+ * Watch spy for testing prop and state changes
+ */
+export interface WatchSpy<V = any> {
+  /**
+   * Name of the prop or state member being watched
+   */
+  propName: string;
+
+  /**
+   * All changes that have been recorded
+   */
+  changes: PropChange<V>[];
+
+  /**
+   * First change recorded (if any)
+   */
+  firstChange: PropChange<V> | undefined;
+
+  /**
+   * Last change recorded (if any)
+   */
+  lastChange: PropChange<V> | undefined;
+
+  /**
+   * Number of changes recorded
+   */
+  length: number;
+}
+
+/**
+ * Result of the `html` tagged template
+ */
+export interface TemplateResult {
+  /**
+   * Static parts of the template
+   */
+  strings: ReadonlyArray<string>;
+
+  /**
+   * Interpolated values, including property, event and boolean attribute bindings
+   */
+  values: unknown[];
+}
+
+/**
+ * Lifecycle hooks logged by the lifecycle recorder
+ */
+export type LifecycleHook =
+  | 'connectedCallback'
+  | 'disconnectedCallback'
+  | 'componentWillLoad'
+  | 'componentDidLoad'
+  | 'componentWillRender'
+  | 'componentDidRender'
+  | 'componentWillUpdate'
+  | 'componentDidUpdate';
+
+/**
+ * Options for `waitForChanges()`
+ */
+export interface WaitForChangesOptions {
+  /**
+   * Maximum number of update cycles to flush before giving up
+   * @default 50
+   */
+  maxIterations?: number;
+}
+
+/**
+ * Options for `waitFor()`, `waitForSelector()` and `findBy*()` queries
+ */
+export interface WaitForOptions {
+  /**
+   * Milliseconds to keep retrying before rejecting
+   * @default 1000
+   */
+  timeout?: number;
+
+  /**
+   * Milliseconds between attempts when the DOM does not change
+   * @default 50
+   */
+  interval?: number;
+}
+
+/**
+ * Options for `waitForSelector()`
+ */
+export interface WaitForSelectorOptions extends WaitForOptions {
+  /**
+   * What to wait for: an element matching the selector to be in the DOM, to be visible, or for none to match
+   * @default 'attached'
+   */
+  state?: 'attached' | 'visible' | 'detached';
+
+  /**
+   * Search every open shadow root, like `find()`
+   * @default false
+   */
+  deep?: boolean;
+
+  /**
+   * Element, shadow root or document to search in
+   * @default document
+   */
+  container?: ParentNode;
+}
+
+/**
+ * Options for `userEvent.type()`
+ */
+export interface UserEventTypeOptions {
+  /**
+   * Type into the focused element without clicking the target first
+   * @default false
+   */
+  skipClick?: boolean;
+}
+
+/**
+ * Options for `userEvent.tab()`
+ */
+export interface UserEventTabOptions {
+  /**
+   * Move focus backwards, like Shift+Tab
+   * @default false
+   */
+  shift?: boolean;
+}
+
+/**
+ * Init for the `fireEvent` helpers: any field of the event's init dictionary
+ * (`key`, `clientX`, `relatedTarget`, `detail`...), overriding the defaults for the event type
+ */
+export interface FireEventInit extends EventInit {
+  /**
+   * Properties to set on the element before the event is dispatched, e.g. `{ value: 'hello' }`
+   */
+  target?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * How severe an accessibility violation is, as reported by axe-core
+ */
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * Options for `toBeAccessible()`
+ */
+export interface AccessibilityOptions {
+  /**
+   * axe-core rules to turn on or off by id, e.g. `{ 'color-contrast': false }`
+   */
+  rules?: Record<string, boolean>;
+  /**
+   * Only fail on violations at least this severe
+   * @default 'minor'
+   */
+  impact?: AccessibilityImpact;
 }
 
 /**
@@ -33,17 +432,19 @@ export interface EventSpy {
  */
 export interface RenderOptions {
   /**
-   * Props to pass to the component
+   * Props to pass to the component.
+   * Applied as properties before the component first loads
    */
   props?: Record<string, any>;
 
   /**
-   * Slots content (for shadow DOM components)
+   * Slots content (for shadow DOM components), keyed by slot name.
+   * Use `default` for the unnamed slot
    */
   slots?: Record<string, string | HTMLElement>;
 
   /**
-   * HTML content to place inside the component
+   * HTML content to place inside the component (light DOM)
    */
   html?: string;
 
@@ -57,26 +458,73 @@ export interface RenderOptions {
    * Additional HTML attributes
    */
   attributes?: Record<string, string>;
+
+  /**
+   * Remove stages rendered by previous tests before rendering.
+   * Stages rendered earlier in the same test are kept
+   * @default true
+   */
+  clearStage?: boolean;
+
+  /**
+   * Attributes applied to the stage container the component is rendered into
+   * @default { class: 'stencil-component-stage' }
+   */
+  stageAttrs?: Record<string, string>;
+
+  /**
+   * Record the lifecycle hooks called on every component in the stage,
+   * for `toHaveCalledLifecycle()` and `toHaveLifecycleOrder()`
+   * @default false
+   */
+  recordLifecycle?: boolean;
+
+  /**
+   * Count `render()` calls of every component in the stage,
+   * for `toHaveRenderedTimes()` and `expectNoRerender()`
+   * @default false
+   */
+  countRenders?: boolean;
 }
 
 /**
- * Render result for component testing
+ * Render result for component testing.
+ * Includes Testing Library style queries (`getByRole()`, `findByText()`, ...) bound to the stage
  */
-export interface RenderResult<T = HTMLElement> {
+export interface RenderResult<T = HTMLElement, I = any> extends BoundQueries {
   /**
    * The rendered component element
    */
   root: T;
 
   /**
-   * Wait for changes to be applied
+   * The stage container the component was rendered into
+   */
+  stage: HTMLElement;
+
+  /**
+   * Flush Stencil's update cycle until every component in the document is idle
    */
-  waitForChanges: () => Promise<void>;
+  waitForChanges: (options?: WaitForChangesOptions) => Promise<void>;
 
   /**
-   * Get the component instance (if available)
+   * Wait for an element matching a selector to be attached or visible in the stage, or for none to match
    */
-  instance?: any;
+  waitForSelector(
+    selector: string,
+    options: Omit<WaitForSelectorOptions, 'container'> & { state: 'detached' },
+  ): Promise<null>;
+  waitForSelector<E extends Element = HTMLElement>(
+    selector: string,
+    options?: Omit<WaitForSelectorOptions, 'container'>,
+  ): Promise<E>;
+
+  /**
+   * The component class instance, like `newSpecPage().rootInstance`.
+   * Typed against the component class when supplied, e.g. `render<HTMLMyCardElement, MyCard>(...)`.
+   * Falls back to the root element when it is not a Stencil component
+   */
+  instance: I;
 
   /**
    * Update component props
@@ -84,12 +532,41 @@ export interface RenderResult<T = HTMLElement> {
   setProps: (props: Record<string, any>) => Promise<void>;
 
   /**
-   * Unmount/cleanup the component
+   * Patch the stage with a new VNode tree, keeping existing component instances alive
+   */
+  rerender: (vnode: any) => Promise<void>;
+
+  /**
+   * Unmount/cleanup the component, removing only this stage
    */
   unmount: () => void;
 
   /**
-   * Spy on a custom event
+   * Spy on an event dispatched on the root element.
+   * The spy stops listening when the stage is unmounted
+   */
+  spyOnEvent: <E extends Event = CustomEvent>(eventName: string, options?: SpyOnEventOptions) => EventSpy<E>;
+
+  /**
+   * Wait for an event to be dispatched on the root element
+   */
+  waitForEvent: <E extends Event = CustomEvent>(eventName: string, options?: WaitForEventOptions<E>) => Promise<E>;
+
+  /**
+   * Find the first element in the stage matching a selector. `>>>` steps into shadow roots (`my-card >>> button`).
+   * Throws when nothing matches
+   */
+  find<K extends keyof HTMLElementTagNameMap>(selector: K, options?: FindOptions): HTMLElementTagNameMap[K];
+  find<E extends Element = HTMLElement>(selector: string, options?: FindOptions): E;
+
+  /**
+   * Find all elements in the stage matching a selector. `>>>` steps into shadow roots (`my-card >>> button`)
+   */
+  findAll<K extends keyof HTMLElementTagNameMap>(selector: K, options?: FindOptions): HTMLElementTagNameMap[K][];
+  findAll<E extends Element = HTMLElement>(selector: string, options?: FindOptions): E[];
+
+  /**
+   * Record changes of a `@Prop()` or `@State()` member of the root component
    */
-  spyOnEvent: (eventName: string) => EventSpy;
+  watchSpy: <V = any>(propName: string) => WatchSpy<V>;
 }
@@ -44,12 +44,73 @@ export namespace Components {
           * @default false
          */
         "interactive": boolean;
+        /**
+          * Tags listed above the content
+          * @default []
+         */
+        "tags": string[];
+    }
+    /**
+     * A form-associated checkbox component for testing
+     */
+    interface MyCheckbox {
+        /**
+          * Whether the checkbox is checked
+          * @default false
+         */
+        "checked": boolean;
+        /**
+          * Whether the checkbox is disabled
+          * @default false
+         */
+        "disabled": boolean;
+        /**
+          * Name the value is submitted under
+         */
+        "name"?: string;
+        /**
+          * Whether the checkbox must be checked to submit its form
+          * @default false
+         */
+        "required": boolean;
+        /**
+          * Value submitted when checked
+          * @default 'on'
+         */
+        "value": string;
+    }
+    /**
+     * A text field component for testing, which delegates focus to its input
+     */
+    interface MyInput {
+        /**
+          * Whether the field is disabled
+          * @default false
+         */
+        "disabled": boolean;
+        /**
+          * Field label
+         */
+        "label"?: string;
+        /**
+          * Current value
+          * @default ''
+         */
+        "value": string;
     }
 }
 export interface MyButtonCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLMyButtonElement;
 }
+export interface MyCheckboxCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLMyCheckboxElement;
+}
+export interface MyInputCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLMyInputElement;
+}
 declare global {
     interface HTMLMyButtonElementEventMap {
         "buttonClick": MouseEvent;
@@ -80,9 +141,52 @@ declare global {
         prototype: HTMLMyCardElement;
         new (): HTMLMyCardElement;
     };
+    interface HTMLMyCheckboxElementEventMap {
+        "checkedChange": boolean;
+    }
+    /**
+     * A form-associated checkbox component for testing
+     */
+    interface HTMLMyCheckboxElement extends Components.MyCheckbox, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLMyCheckboxElementEventMap>(type: K, listener: (this: HTMLMyCheckboxElement, ev: MyCheckboxCustomEvent<HTMLMyCheckboxElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLMyCheckboxElementEventMap>(type: K, listener: (this: HTMLMyCheckboxElement, ev: MyCheckboxCustomEvent<HTMLMyCheckboxElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLMyCheckboxElement: {
+        prototype: HTMLMyCheckboxElement;
+        new (): HTMLMyCheckboxElement;
+    };
+    interface HTMLMyInputElementEventMap {
+        "valueInput": string;
+        "valueChange": string;
+    }
+    /**
+     * A text field component for testing, which delegates focus to its input
+     */
+    interface HTMLMyInputElement extends Components.MyInput, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLMyInputElementEventMap>(type: K, listener: (this: HTMLMyInputElement, ev: MyInputCustomEvent<HTMLMyInputElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLMyInputElementEventMap>(type: K, listener: (this: HTMLMyInputElement, ev: MyInputCustomEvent<HTMLMyInputElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLMyInputElement: {
+        prototype: HTMLMyInputElement;
+        new (): HTMLMyInputElement;
+    };
     interface HTMLElementTagNameMap {
         "my-button": HTMLMyButtonElement;
         "my-card": HTMLMyCardElement;
+        "my-checkbox": HTMLMyCheckboxElement;
+        "my-input": HTMLMyInputElement;
     }
 }
 declare namespace LocalJSX {
@@ -128,10 +232,77 @@ declare namespace LocalJSX {
           * @default false
          */
         "interactive"?: boolean;
+        /**
+          * Tags listed above the content
+          * @default []
+         */
+        "tags"?: string[];
+    }
+    /**
+     * A form-associated checkbox component for testing
+     */
+    interface MyCheckbox {
+        /**
+          * Whether the checkbox is checked
+          * @default false
+         */
+        "checked"?: boolean;
+        /**
+          * Whether the checkbox is disabled
+          * @default false
+         */
+        "disabled"?: boolean;
+        /**
+          * Name the value is submitted under
+         */
+        "name"?: string;
+        /**
+          * Emitted when the user toggles the checkbox
+         */
+        "onCheckedChange"?: (event: MyCheckboxCustomEvent<boolean>) => void;
+        /**
+          * Whether the checkbox must be checked to submit its form
+          * @default false
+         */
+        "required"?: boolean;
+        /**
+          * Value submitted when checked
+          * @default 'on'
+         */
+        "value"?: string;
+    }
+    /**
+     * A text field component for testing, which delegates focus to its input
+     */
+    interface MyInput {
+        /**
+          * Whether the field is disabled
+          * @default false
+         */
+        "disabled"?: boolean;
+        /**
+          * Field label
+         */
+        "label"?: string;
+        /**
+          * Emitted when an edited value is committed
+         */
+        "onValueChange"?: (event: MyInputCustomEvent<string>) => void;
+        /**
+          * Emitted on every edit, with the new value
+         */
+        "onValueInput"?: (event: MyInputCustomEvent<string>) => void;
+        /**
+          * Current value
+          * @default ''
+         */
+        "value"?: string;
     }
     interface IntrinsicElements {
         "my-button": MyButton;
         "my-card": MyCard;
+        "my-checkbox": MyCheckbox;
+        "my-input": MyInput;
     }
 }
 export { LocalJSX as JSX };
@@ -146,6 +317,14 @@ declare module "@stencil/core" {
              * A card component with header, content, and footer slots
              */
             "my-card": LocalJSX.MyCard & JSXBase.HTMLAttributes<HTMLMyCardElement>;
+            /**
+             * A form-associated checkbox component for testing
+             */
+            "my-checkbox": LocalJSX.MyCheckbox & JSXBase.HTMLAttributes<HTMLMyCheckboxElement>;
+            /**
+             * A text field component for testing, which delegates focus to its input
+             */
+            "my-input": LocalJSX.MyInput & JSXBase.HTMLAttributes<HTMLMyInputElement>;
         }
     }
 }
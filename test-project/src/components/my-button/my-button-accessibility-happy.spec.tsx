@@ -0,0 +1,64 @@
+/**
+ * Tests for the toBeAccessible() axe-core audit
+ */
+import { describe, it, expect } from 'vitest';
+import { html, render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - accessibility (happy-dom)', () => {
+  it('should pass for components with accessible names', async () => {
+    const { root } = await render(
+      <div>
+        <my-button>Save</my-button>
+        <my-input label="Email" />
+      </div>,
+    );
+
+    await expect(root).toBeAccessible();
+  });
+
+  it('should report violations inside shadow roots grouped by rule with the failing nodes serialized', async () => {
+    const { root } = await render(html`
+      <div>
+        <my-button></my-button>
+        <img src="logo.png" />
+      </div>
+    `);
+
+    const error: Error = await expect(root)
+      .toBeAccessible()
+      .catch((e) => e);
+
+    expect(error.message).toContain('Expected <div> to be accessible, but axe found 2 violations:');
+    expect(error.message).toContain(
+      'button-name (critical): Buttons must have discernible text\n' + '  https://dequeuniversity.com/rules/axe/',
+    );
+    expect(error.message).toContain('    <button class="button button--primary button--medium" type="button">');
+    expect(error.message).toContain('image-alt (critical): Images must have alternative text');
+    expect(error.message).toContain('    <img src="logo.png">');
+  });
+
+  it('should audit the whole stage the element was rendered in', async () => {
+    const { root } = await render(html`
+      <div>
+        <my-button>Save</my-button>
+        <my-button></my-button>
+      </div>
+    `);
+
+    await expect(root.querySelector('my-button')).not.toBeAccessible();
+  });
+
+  it('should turn rules off and ignore violations below the impact', async () => {
+    const { root } = await render(html`
+      <div>
+        <h1>Plans</h1>
+        <h3>Pro</h3>
+        <my-button></my-button>
+      </div>
+    `);
+
+    await expect(root).not.toBeAccessible({ rules: { 'button-name': false } });
+    await expect(root).toBeAccessible({ rules: { 'button-name': false }, impact: 'serious' });
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Tests for the toBeAccessible() axe-core audit
+ */
+import { describe, it, expect } from 'vitest';
+import { render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - accessibility', () => {
+  it('should explain that mock-doc cannot be audited', async () => {
+    const { root } = await render(<my-button>Save</my-button>);
+
+    await expect(expect(root).toBeAccessible()).rejects.toThrow(
+      "toBeAccessible() can't audit mock-doc's DOM. Run the test with jsdom, happy-dom or in browser mode",
+    );
+  });
+});
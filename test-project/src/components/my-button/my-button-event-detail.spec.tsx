@@ -0,0 +1,103 @@
+/**
+ * Tests for event detail matchers
+ */
+import { describe, it, expect } from 'vitest';
+import { render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+class Money {
+  constructor(
+    public amount: number,
+    public currency: string,
+  ) {}
+}
+
+expect.addEqualityTesters([
+  (a: unknown, b: unknown) =>
+    a instanceof Money && b instanceof Money ? a.amount === b.amount && a.currency === b.currency : undefined,
+]);
+
+describe('my-button - event detail matchers', () => {
+  it('should support asymmetric matchers', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('itemSelect');
+
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 7, label: 'Seven', tags: ['a', 'b'] } }));
+
+    expect(spy).toHaveReceivedEventDetail({ id: expect.any(Number), label: 'Seven', tags: ['a', 'b'] });
+    expect(spy).toHaveReceivedEventDetail(expect.objectContaining({ label: expect.stringMatching(/^Sev/) }));
+    expect(spy).not.toHaveReceivedEventDetail({ id: 7 });
+  });
+
+  it('should compare Dates, Maps and custom equality testers', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('priceChange');
+    const dispatch = (detail: any) => root.dispatchEvent(new CustomEvent('priceChange', { detail }));
+
+    dispatch({ at: new Date('2024-01-01T00:00:00Z') });
+    dispatch(new Map([['EUR', 2]]));
+    dispatch(new Money(5, 'EUR'));
+
+    expect(spy).toHaveFirstReceivedEventDetail({ at: new Date('2024-01-01T00:00:00Z') });
+    expect(spy).not.toHaveFirstReceivedEventDetail({ at: new Date('2025-01-01T00:00:00Z') });
+    expect(spy).toHaveNthReceivedEventDetail(1, new Map([['EUR', 2]]));
+    expect(spy).not.toHaveNthReceivedEventDetail(1, new Map([['EUR', 3]]));
+    expect(spy).toHaveLastReceivedEventDetail(new Money(5, 'EUR'));
+  });
+
+  it('should compare DOM nodes', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('itemSelect');
+    const button = root.shadowRoot!.querySelector('button')!;
+
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { item: button } }));
+
+    expect(spy).toHaveReceivedEventDetail({ item: button });
+    expect(spy).not.toHaveReceivedEventDetail({ item: root });
+  });
+
+  it('should assert the MouseEvent detail my-button emits', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('buttonClick');
+
+    root.shadowRoot?.querySelector('button')?.click();
+
+    expect(spy).toHaveReceivedEventDetailMatching({ type: 'click' });
+    expect(spy).not.toHaveReceivedEventDetailMatching({ type: 'keydown' });
+  });
+
+  describe('toHaveReceivedEventDetailMatching', () => {
+    it('should match a subset of the detail, including nested objects', async () => {
+      const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+      const spy = spyOnEvent('formSubmit');
+
+      root.dispatchEvent(
+        new CustomEvent('formSubmit', {
+          detail: { values: { name: 'Ada', email: 'ada@example.com' }, valid: true, submittedAt: Date.now() },
+        }),
+      );
+
+      expect(spy).toHaveReceivedEventDetailMatching({ values: { name: 'Ada' }, valid: true });
+      expect(spy).toHaveReceivedEventDetailMatching({ submittedAt: expect.any(Number) });
+      expect(spy).not.toHaveReceivedEventDetailMatching({ values: { name: 'Grace' } });
+    });
+  });
+
+  it('should show a diff when the detail does not match', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('itemSelect');
+
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 7, label: 'Seven' } }));
+
+    let message = '';
+    try {
+      expect(spy).toHaveReceivedEventDetail({ id: 8, label: 'Seven' });
+    } catch (e) {
+      message = (e as Error).message;
+    }
+
+    expect(message).toContain('Expected last event detail to equal');
+    expect(message).toContain('-   "id": 8,');
+    expect(message).toContain('+   "id": 7,');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for the update-cycle helpers under vi.useFakeTimers()
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - fake timers (happy-dom)', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should render and flush changes', async () => {
+    const { root, waitForChanges } = await render<HTMLMyButtonElement>(<my-button>Save</my-button>);
+
+    root.variant = 'danger';
+    await waitForChanges();
+
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+  });
+
+  it('should apply setProps', async () => {
+    const { root, setProps } = await render(<my-button>Save</my-button>);
+
+    await setProps({ size: 'large', disabled: true });
+
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--large');
+    expect(root.shadowRoot!.querySelector('button')?.hasAttribute('disabled')).toBe(true);
+  });
+
+  it('should flush updates made by debounced timers', async () => {
+    const { root } = await render<HTMLMyButtonElement>(<my-button>Save</my-button>);
+    setTimeout(() => (root.variant = 'secondary'), 300);
+
+    vi.advanceTimersByTime(200);
+    await waitForChanges();
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--primary');
+
+    vi.advanceTimersByTime(100);
+    await waitForChanges();
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--secondary');
+  });
+
+  it('should only advance the clock frame by frame', async () => {
+    const { root } = await render<HTMLMyButtonElement>(<my-button>Save</my-button>);
+    const timeout = vi.fn();
+    setTimeout(timeout, 1000);
+
+    root.size = 'small';
+    await waitForChanges();
+
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--small');
+    expect(timeout).not.toHaveBeenCalled();
+  });
+
+  it('should step the clock without advanceTimersToNextFrame (Vitest 2.0)', async () => {
+    const { root } = await render<HTMLMyButtonElement>(<my-button>Save</my-button>);
+    const advanceTimersToNextFrame = vi.advanceTimersToNextFrame;
+    (vi as any).advanceTimersToNextFrame = undefined;
+
+    try {
+      root.variant = 'danger';
+      await waitForChanges();
+    } finally {
+      vi.advanceTimersToNextFrame = advanceTimersToNextFrame;
+    }
+
+    expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+  });
+});
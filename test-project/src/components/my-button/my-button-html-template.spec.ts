@@ -0,0 +1,108 @@
+/**
+ * Tests for the html tagged template and its bindings
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, html } from '@johnjenkins/stencil-vitest';
+
+describe('my-button - html tagged template', () => {
+  describe('attribute values', () => {
+    it('should interpolate quoted and unquoted attribute values', async () => {
+      const variant = 'danger';
+      const { root } = await render(html`<my-button variant=${variant} size="${'small'}">Delete</my-button>`);
+
+      const button = root.shadowRoot!.querySelector('button');
+      expect(button).toHaveClasses(['button--danger', 'button--small']);
+    });
+
+    it('should escape quotes in attribute values', async () => {
+      const { root } = await render(html`<my-button title="${"Don't"}" aria-label="${'Say "hi"'}">Quotes</my-button>`);
+
+      expect(root).toEqualAttribute('title', "Don't");
+      expect(root).toEqualAttribute('aria-label', 'Say "hi"');
+    });
+
+    it('should interpolate into quoted values containing binding prefixes', async () => {
+      const id = 7;
+      const { root } = await render(
+        html`<my-button title="/x?a=${id}" aria-label="mailto:a@b=${id}" data-version="v1.x=${id}">Link</my-button>`,
+      );
+
+      expect(root).toEqualAttribute('title', '/x?a=7');
+      expect(root).toEqualAttribute('aria-label', 'mailto:a@b=7');
+      expect(root).toEqualAttribute('data-version', 'v1.x=7');
+      expect(root.hasAttribute('stencil-vitest-binding-0')).toBe(false);
+    });
+
+    it('should escape interpolated text', async () => {
+      const { root } = await render(html`<my-button>${'<b>not bold</b>'}</my-button>`);
+
+      expect(root.querySelector('b')).toBeNull();
+      expect(root).toEqualText('<b>not bold</b>');
+    });
+  });
+
+  describe('property bindings', () => {
+    it('should set properties before the first render', async () => {
+      const { root } = await render(html`<my-button .variant=${'secondary'}>Secondary</my-button>`);
+
+      expect(root.hasAttribute('.variant')).toBe(false);
+      expect(root.shadowRoot!.querySelector('button')).toHaveClass('button--secondary');
+    });
+
+    it('should pass arrays by reference', async () => {
+      const tags = ['New', 'Sale'];
+      const { root } = await render<HTMLMyCardElement>(html`<my-card .tags=${tags}></my-card>`);
+
+      expect(root.tags).toBe(tags);
+      const rendered = Array.from(root.shadowRoot!.querySelectorAll('.card__tag'), (tag) => tag.textContent);
+      expect(rendered).toEqual(['New', 'Sale']);
+    });
+  });
+
+  describe('event bindings', () => {
+    it('should add event listeners', async () => {
+      const onClick = vi.fn();
+      const { root } = await render(html`<my-button @buttonClick=${onClick}>Click me</my-button>`);
+
+      root.shadowRoot!.querySelector('button')!.click();
+
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('boolean attributes', () => {
+    it('should add the attribute when true', async () => {
+      const { root } = await render(html`<my-button ?disabled=${true}>Disabled</my-button>`);
+
+      expect(root).toHaveAttribute('disabled');
+      expect(root.shadowRoot!.querySelector('button')).toHaveAttribute('disabled');
+    });
+
+    it('should omit the attribute when false', async () => {
+      const { root } = await render(html`<my-button ?disabled=${false}>Enabled</my-button>`);
+
+      expect(root.hasAttribute('disabled')).toBe(false);
+    });
+  });
+
+  describe('nested templates', () => {
+    it('should render nested templates and arrays with their bindings', async () => {
+      const onClick = vi.fn();
+      const variants = ['primary', 'danger'];
+      const { root } = await render(html`
+        <my-card card-title="Actions">
+          ${variants.map(
+            (variant) => html`<my-button .variant=${variant} @buttonClick=${onClick}>${variant}</my-button>`,
+          )}
+        </my-card>
+      `);
+      const buttons = Array.from(root.querySelectorAll('my-button'));
+
+      expect(buttons).toHaveLength(2);
+      expect(buttons[1].shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+
+      buttons[1].shadowRoot!.querySelector('button')!.click();
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for recording event timelines
+ */
+import { describe, it, expect } from 'vitest';
+import { recordEvents, render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+const emit = (target: EventTarget, name: string, detail?: any) =>
+  target.dispatchEvent(new CustomEvent(name, { detail, bubbles: true, composed: true }));
+
+describe('my-button - recordEvents', () => {
+  it('should record several events into one ordered timeline', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const timeline = recordEvents(root, ['buttonClick', 'menuOpen']);
+
+    root.shadowRoot?.querySelector('button')?.click();
+    emit(root, 'menuOpen', { items: 3 });
+    emit(root, 'menuClose');
+
+    expect(timeline.entries.map(({ eventName }) => eventName)).toEqual(['buttonClick', 'menuOpen']);
+    expect(timeline.length).toBe(2);
+    expect(timeline.lastEvent?.detail).toEqual({ items: 3 });
+    expect(timeline.entries[1].detail).toEqual({ items: 3 });
+    expect(timeline.entries[1].timestamp).toBeGreaterThanOrEqual(timeline.entries[0].timestamp);
+  });
+
+  it('should reset and dispose the timeline', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const timeline = recordEvents(root, ['menuOpen']);
+
+    emit(root, 'menuOpen');
+    timeline.reset();
+    expect(timeline.entries).toHaveLength(0);
+
+    timeline.dispose();
+    emit(root, 'menuOpen');
+    expect(timeline.length).toBe(0);
+  });
+
+  it('should stop recording when the stage is unmounted', async () => {
+    const { root, unmount } = await render(<my-button>Click me</my-button>);
+    const timeline = recordEvents(root, ['menuOpen']);
+
+    unmount();
+    emit(root, 'menuOpen');
+
+    expect(timeline.length).toBe(0);
+  });
+
+  describe('toHaveEmittedInOrder', () => {
+    it('should check the order of events, allowing others in between', async () => {
+      const { root } = await render(<my-button>Click me</my-button>);
+      const timeline = recordEvents(root, ['comboFocus', 'comboInput', 'comboChange', 'comboOpen']);
+
+      emit(root, 'comboFocus');
+      emit(root, 'comboInput', 'a');
+      emit(root, 'comboOpen');
+      emit(root, 'comboChange', 'a');
+
+      expect(timeline).toHaveEmittedInOrder(['comboFocus', 'comboInput', 'comboOpen']);
+      expect(timeline).toHaveEmittedInOrder(['comboFocus', 'comboChange']);
+      expect(timeline).not.toHaveEmittedInOrder(['comboChange', 'comboOpen']);
+    });
+
+    it('should show the timeline when it fails', async () => {
+      const { root } = await render(<my-button>Click me</my-button>);
+      const timeline = recordEvents(root, ['comboOpen', 'comboChange']);
+
+      emit(root, 'comboChange', 'a');
+      emit(root, 'comboOpen');
+
+      expect(() => expect(timeline).toHaveEmittedInOrder(['comboOpen', 'comboChange'])).toThrow(
+        'Expected events to have been emitted in order [comboOpen, comboChange], but comboChange was not emitted after comboOpen. Timeline:\n  1. comboChange "a"\n  2. comboOpen',
+      );
+      expect(() => expect(timeline).toHaveEmittedInOrder(['comboClose'])).toThrow(
+        'The timeline does not record "comboClose". Recorded events: comboOpen, comboChange',
+      );
+    });
+  });
+
+  it('should serialize timelines for snapshots', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const timeline = recordEvents(root, ['comboFocus', 'comboInput', 'comboChange']);
+
+    emit(root, 'comboFocus');
+    emit(root, 'comboInput', 'st');
+    emit(root, 'comboChange', { value: 'stencil', index: 2 });
+
+    expect(timeline).toMatchSnapshot();
+  });
+});
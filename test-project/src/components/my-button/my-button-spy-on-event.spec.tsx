@@ -0,0 +1,100 @@
+/**
+ * Tests for spyOnEvent targets, options and disposal
+ */
+import { describe, it, expect } from 'vitest';
+import { cleanup, render, spyOnEvent } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - spyOnEvent', () => {
+  it('should keep distinct spies for different events on the same element', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const clickSpy = spyOnEvent('buttonClick');
+    const customSpy = spyOnEvent('customEvent');
+
+    root.shadowRoot?.querySelector('button')?.click();
+    root.dispatchEvent(new CustomEvent('customEvent', { detail: 'custom' }));
+
+    expect(customSpy.eventName).toBe('customEvent');
+    expect(clickSpy).toHaveReceivedEventTimes(1);
+    expect(customSpy).toHaveReceivedEventDetail('custom');
+    expect(spyOnEvent('buttonClick') === clickSpy).toBe(true);
+  });
+
+  it('should spy on shadow roots in the capture phase', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent<MouseEvent>(root.shadowRoot!, 'click', { capture: true });
+
+    root.shadowRoot?.querySelector('button')?.click();
+
+    expect(spy).toHaveReceivedEventTimes(1);
+    expect(spy.lastEvent?.type).toBe('click');
+  });
+
+  it('should spy on window and document', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const documentSpy = spyOnEvent(document, 'buttonClick');
+    const windowSpy = spyOnEvent(window, 'resize');
+
+    root.shadowRoot?.querySelector('button')?.click();
+    window.dispatchEvent(new Event('resize'));
+
+    expect(documentSpy).toHaveReceivedEventTimes(1);
+    expect(windowSpy).toHaveReceivedEventTimes(1);
+    windowSpy.dispose();
+    documentSpy.dispose();
+  });
+
+  it('should stop after the first event with once', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent(root, 'buttonClick', { once: true });
+    const button = root.shadowRoot?.querySelector('button');
+
+    button?.click();
+    button?.click();
+
+    expect(spy).toHaveReceivedEventTimes(1);
+  });
+
+  it('should forget events on reset and stop listening on dispose', async () => {
+    const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent('buttonClick');
+    const button = root.shadowRoot?.querySelector('button');
+
+    button?.click();
+    spy.reset();
+    expect(spy).toHaveReceivedEventTimes(0);
+    expect(spy.firstEvent).toBeUndefined();
+
+    button?.click();
+    expect(spy).toHaveReceivedEventTimes(1);
+
+    spy.dispose();
+    button?.click();
+    expect(spy).toHaveReceivedEventTimes(1);
+    expect(spyOnEvent('buttonClick') === spy).toBe(false);
+  });
+
+  it('should remove listeners when the stage is unmounted', async () => {
+    const { root, unmount } = await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent(root, 'buttonClick');
+    const windowSpy = spyOnEvent(window, 'resize');
+
+    unmount();
+    root.dispatchEvent(new CustomEvent('buttonClick'));
+    window.dispatchEvent(new Event('resize'));
+
+    expect(spy).toHaveReceivedEventTimes(0);
+    expect(windowSpy).toHaveReceivedEventTimes(1);
+    windowSpy.dispose();
+  });
+
+  it('should dispose every spy on cleanup', async () => {
+    await render(<my-button>Click me</my-button>);
+    const spy = spyOnEvent(window, 'resize');
+
+    cleanup();
+    window.dispatchEvent(new Event('resize'));
+
+    expect(spy).toHaveReceivedEventTimes(0);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for scoped stages: several independent fixtures in one test
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { render, renderAll, screen, type RenderResult } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - scoped stages', () => {
+  it('should keep stages rendered earlier in the same test', async () => {
+    const trigger = await render(<my-button>Toggle</my-button>);
+    const popover = await render(<my-card cardTitle="Popover" />);
+
+    expect(trigger.root.isConnected).toBe(true);
+    expect(popover.root.isConnected).toBe(true);
+    expect(trigger.stage === popover.stage).toBe(false);
+    expect(screen.roots).toHaveLength(2);
+    expect(screen.roots[0]).toBe(trigger.root);
+    expect(screen.roots[1]).toBe(popover.root);
+  });
+
+  it('should clear stages from previous tests', async () => {
+    const { root } = await render(<my-button>Only</my-button>);
+
+    expect(screen.roots).toHaveLength(1);
+    expect(screen.roots[0]).toBe(root);
+  });
+
+  it('should let separately rendered components interact', async () => {
+    const trigger = await render(<my-button>Toggle</my-button>);
+    const popover = await render<HTMLMyCardElement>(<my-card cardTitle="Popover" />);
+
+    trigger.root.addEventListener('buttonClick', () => {
+      popover.root.interactive = !popover.root.interactive;
+    });
+    trigger.root.shadowRoot!.querySelector('button')!.click();
+    await popover.waitForChanges();
+
+    expect(popover.root.shadowRoot!.querySelector('.card')).toHaveClass('card--interactive');
+  });
+
+  it('should only remove its own stage on unmount', async () => {
+    const first = await render(<my-button>First</my-button>);
+    const second = await render(<my-button>Second</my-button>);
+
+    first.unmount();
+
+    expect(first.stage.isConnected).toBe(false);
+    expect(second.stage.isConnected).toBe(true);
+    expect(screen.stages).toHaveLength(1);
+    expect(screen.stages[0]).toBe(second);
+  });
+
+  it('should render several fixtures with renderAll', async () => {
+    const [button, card] = await renderAll([<my-button>Button</my-button>, <my-card cardTitle="Card" />]);
+
+    expect(button.root.tagName.toLowerCase()).toBe('my-button');
+    expect(card.root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Card');
+    expect(screen.getStage(card.root)).toBe(card);
+    expect(screen.getStage(button.root.firstChild!)).toBe(button);
+  });
+
+  describe('fixtures rendered in beforeAll', () => {
+    let fixture: RenderResult<HTMLMyCardElement>;
+
+    beforeAll(async () => {
+      fixture = await render<HTMLMyCardElement>(<my-card cardTitle="Shared" />);
+    });
+
+    afterAll(() => {
+      fixture.unmount();
+    });
+
+    it('should keep the fixture when a test renders', async () => {
+      const { root } = await render(<my-button>First</my-button>);
+
+      expect(fixture.root.isConnected).toBe(true);
+      expect(screen.roots).toEqual([fixture.root, root]);
+    });
+
+    it('should keep it for later tests, clearing only their stages', async () => {
+      const { root } = await render(<my-button>Second</my-button>);
+
+      expect(fixture.root.isConnected).toBe(true);
+      expect(screen.roots).toEqual([fixture.root, root]);
+    });
+  });
+});
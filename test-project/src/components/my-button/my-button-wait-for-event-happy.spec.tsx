@@ -0,0 +1,45 @@
+/**
+ * Tests for waiting on events
+ */
+import { describe, it, expect } from 'vitest';
+import { render, waitForEvent } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - waitForEvent (happy-dom)', () => {
+  it('should resolve with the event once it fires', async () => {
+    const { root, waitForEvent } = await render(<my-button>Click me</my-button>);
+    const clicked = waitForEvent('buttonClick');
+
+    root.shadowRoot?.querySelector('button')?.click();
+
+    expect((await clicked).type).toBe('buttonClick');
+  });
+
+  it('should keep recording and restore dispatchEvent when overlapping waits finish', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const first = waitForEvent(root, 'first');
+    const second = waitForEvent(root, 'second', { timeout: 50 });
+
+    root.dispatchEvent(new CustomEvent('first'));
+    await first;
+    root.dispatchEvent(new CustomEvent('other'));
+
+    await expect(second).rejects.toThrow('while waiting:\n  1. first\n  2. other');
+    expect(Object.prototype.hasOwnProperty.call(root, 'dispatchEvent')).toBe(false);
+    expect(root.dispatchEvent).toBe(HTMLElement.prototype.dispatchEvent);
+  });
+
+  it('should list each event that fired once when it times out', async () => {
+    const { root, waitForEvent } = await render(<my-button>Click me</my-button>);
+    const selected = waitForEvent('itemSelect', { timeout: 20, predicate: (detail) => detail.id === 3 });
+
+    root.dispatchEvent(new CustomEvent('itemFocus', { detail: { id: 1 } }));
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 1 } }));
+
+    await expect(selected).rejects.toThrow(
+      'Events dispatched on <my-button> while waiting:\n' +
+        '  1. itemFocus {"id":1}\n' +
+        '  2. itemSelect {"id":1} (did not match the predicate)',
+    );
+  });
+});
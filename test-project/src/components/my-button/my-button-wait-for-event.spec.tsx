@@ -0,0 +1,84 @@
+/**
+ * Tests for waiting on events
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, waitForEvent } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - waitForEvent', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the event once it fires', async () => {
+    const { root, waitForEvent } = await render(<my-button>Click me</my-button>);
+    const clicked = waitForEvent<CustomEvent<MouseEvent>>('buttonClick');
+
+    setTimeout(() => root.shadowRoot?.querySelector('button')?.click(), 10);
+
+    const event = await clicked;
+    expect(event.type).toBe('buttonClick');
+  });
+
+  it('should resolve with the first event whose detail matches the predicate', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const selected = waitForEvent(root, 'itemSelect', { predicate: (detail) => detail.id === 2 });
+
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 1 } }));
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 2 } }));
+
+    expect((await selected).detail).toEqual({ id: 2 });
+  });
+
+  it('should wait on document for events bubbling out of the component', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const clicked = waitForEvent(document, 'buttonClick');
+
+    root.shadowRoot?.querySelector('button')?.click();
+
+    expect((await clicked).type).toBe('buttonClick');
+  });
+
+  it('should keep recording and restore dispatchEvent when overlapping waits finish', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+    const first = waitForEvent(root, 'first');
+    const second = waitForEvent(root, 'second', { timeout: 50 });
+
+    root.dispatchEvent(new CustomEvent('first'));
+    await first;
+    root.dispatchEvent(new CustomEvent('other'));
+
+    await expect(second).rejects.toThrow('while waiting:\n  1. first\n  2. other');
+    expect(Object.prototype.hasOwnProperty.call(root, 'dispatchEvent')).toBe(false);
+    expect(root.dispatchEvent).toBe(HTMLElement.prototype.dispatchEvent);
+  });
+
+  it('should list the events that fired when it times out', async () => {
+    const { root, waitForEvent } = await render(<my-button>Click me</my-button>);
+    const selected = waitForEvent('itemSelect', { timeout: 20, predicate: (detail) => detail.id === 3 });
+
+    root.dispatchEvent(new CustomEvent('itemFocus', { detail: { id: 1 } }));
+    root.dispatchEvent(new CustomEvent('itemSelect', { detail: { id: 1 } }));
+
+    await expect(selected).rejects.toThrow(
+      'waitForEvent() timed out after 20ms waiting for "itemSelect" matching the predicate on <my-button>. Events dispatched on <my-button> while waiting:\n' +
+        '  1. itemFocus {"id":1}\n' +
+        '  2. itemSelect {"id":1} (did not match the predicate)',
+    );
+  });
+
+  it('should say when no events fired', async () => {
+    const { waitForEvent } = await render(<my-button>Click me</my-button>);
+
+    await expect(waitForEvent('buttonClick', { timeout: 10 })).rejects.toThrow(
+      'waitForEvent() timed out after 10ms waiting for "buttonClick" on <my-button>. No events were dispatched on <my-button> while waiting',
+    );
+  });
+
+  it('should time out while timers are faked', async () => {
+    const { waitForEvent } = await render(<my-button>Click me</my-button>);
+    vi.useFakeTimers();
+
+    await expect(waitForEvent('buttonClick', { timeout: 10 })).rejects.toThrow('timed out after 10ms');
+  });
+});
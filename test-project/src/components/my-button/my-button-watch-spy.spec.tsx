@@ -0,0 +1,122 @@
+/**
+ * Tests demonstrating watch spy functionality
+ */
+import { describe, it, expect } from 'vitest';
+import { render, watchSpy } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-button - watch spy', () => {
+  it('should record prop changes with the old and new value', async () => {
+    const { root, setProps } = await render(<my-button>Click me</my-button>);
+    const spy = watchSpy(root, 'variant');
+
+    await setProps({ variant: 'danger' });
+    await setProps({ variant: 'secondary' });
+
+    expect(spy.length).toBe(2);
+    expect(spy.firstChange).toEqual({ oldValue: 'primary', newValue: 'danger', rendered: true });
+    expect(spy.lastChange).toEqual({ oldValue: 'danger', newValue: 'secondary', rendered: true });
+  });
+
+  it('should only mark a change rendered once the component has rendered', async () => {
+    const { root, watchSpy, waitForChanges } = await render(<my-button>Click me</my-button>);
+    const spy = watchSpy('size');
+
+    (root as any).size = 'large';
+    expect(spy.lastChange?.rendered).toBe(false);
+
+    await waitForChanges();
+    expect(spy.lastChange?.rendered).toBe(true);
+  });
+
+  it('should not record values that did not change', async () => {
+    const { root, setProps } = await render(<my-button variant="danger">Click me</my-button>);
+    const spy = watchSpy(root, 'variant');
+
+    await setProps({ variant: 'danger' });
+
+    expect(spy.length).toBe(0);
+  });
+
+  it('should return the existing spy for the same member', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+
+    expect(watchSpy(root, 'variant') === watchSpy(root, 'variant')).toBe(true);
+  });
+
+  it('should throw for members that are not props or state', async () => {
+    const { root } = await render(<my-button>Click me</my-button>);
+
+    expect(() => watchSpy(root, 'colour')).toThrow(
+      'watchSpy(): <my-button> has no @Prop() or @State() named "colour". Watchable members: variant, disabled, size',
+    );
+    expect(() => watchSpy(document.createElement('div'), 'variant')).toThrow(
+      'watchSpy() expects a Stencil component element, received <div>',
+    );
+  });
+
+  it('should throw when the component metadata cannot be read', () => {
+    const elm: any = document.createElement('my-widget');
+    elm.__stencil__getHostRef = () => ({ values: new Map() });
+
+    expect(() => watchSpy(elm, 'variant')).toThrow(
+      'watchSpy() could not read the metadata of <my-widget> to check that "variant" is a @Prop() or @State()',
+    );
+  });
+
+  describe('toHaveChangedProp', () => {
+    it('should match changes on the element or the spy', async () => {
+      const { root, setProps } = await render(<my-button>Click me</my-button>);
+      const spy = watchSpy(root, 'variant');
+      watchSpy(root, 'disabled');
+
+      await setProps({ variant: 'danger' });
+
+      expect(root).toHaveChangedProp('variant');
+      expect(root).toHaveChangedProp('variant', 'primary', 'danger');
+      expect(spy).toHaveChangedProp('variant', 'primary', 'danger');
+      expect(root).not.toHaveChangedProp('variant', 'primary', 'secondary');
+      expect(root).not.toHaveChangedProp('disabled');
+    });
+
+    it('should compare values like toEqual, with asymmetric matchers', async () => {
+      const { root, setProps } = await render(<my-button>Click me</my-button>);
+      watchSpy(root, 'variant');
+
+      await setProps({ variant: 'danger' });
+
+      expect(root).toHaveChangedProp('variant', expect.any(String), 'danger');
+      expect(root).toHaveChangedProp('variant', 'primary', expect.stringMatching(/^dan/));
+      expect(root).not.toHaveChangedProp('variant', expect.any(Number));
+    });
+
+    it('should mark renders while renders are counted', async () => {
+      const { root, setProps } = await render(<my-button>Click me</my-button>, { countRenders: true });
+      const spy = watchSpy(root, 'variant');
+
+      await setProps({ variant: 'danger' });
+
+      expect(spy.lastChange?.rendered).toBe(true);
+      expect(root).toHaveRenderedTimes(2);
+    });
+
+    it('should list the recorded changes when it fails', async () => {
+      const { root, setProps } = await render(<my-button>Click me</my-button>);
+      watchSpy(root, 'variant');
+
+      await setProps({ variant: 'danger' });
+
+      expect(() => expect(root).toHaveChangedProp('variant', 'danger', 'primary')).toThrow(
+        'Expected "variant" on <my-button> to have changed from "danger" to "primary". Recorded changes:\n  1. "primary" → "danger" (rendered)',
+      );
+    });
+
+    it('should fail for members without a spy', async () => {
+      const { root } = await render(<my-button>Click me</my-button>);
+
+      expect(() => expect(root).toHaveChangedProp('size')).toThrow(
+        `"size" is not watched on <my-button>. Create a spy with \`watchSpy(element, 'size')\` before changing it`,
+      );
+    });
+  });
+});
@@ -3,7 +3,7 @@
  * These tests run in a real browser using Playwright
  */
 import { describe, it, expect } from 'vitest';
-import { render, h } from '@johnjenkins/stencil-vitest';
+import { render, h, userEvent as stencilUserEvent } from '@johnjenkins/stencil-vitest';
 import { userEvent } from 'vitest/browser';
 
 describe('my-button - browser tests', () => {
@@ -40,6 +40,13 @@ describe('my-button - browser tests', () => {
 
       expect(clicked).toBe(true);
     });
+
+    it('should render from an HTML string', async () => {
+      const { root } = await render('<my-button variant="danger">From HTML</my-button>');
+
+      expect(root.textContent).toBe('From HTML');
+      expect(root.shadowRoot?.querySelector('button')?.classList.contains('button--danger')).toBe(true);
+    });
   });
 
   describe('visual regression', () => {
@@ -68,6 +75,44 @@ describe('my-button - browser tests', () => {
     });
   });
 
+  describe('accessibility', () => {
+    it('should pass buttons with enough colour contrast', async () => {
+      const { root } = await render(<my-button variant="danger">Delete</my-button>);
+
+      await expect(root).toBeAccessible();
+    });
+
+    it('should report colour contrast, which only browsers can check', async () => {
+      const { root } = await render(<my-button variant="primary">Save</my-button>);
+
+      await expect(expect(root).toBeAccessible()).rejects.toThrow('color-contrast (serious)');
+      await expect(root).toBeAccessible({ rules: { 'color-contrast': false } });
+    });
+  });
+
+  describe('userEvent from stencil-vitest', () => {
+    it('should pass actions to the browser and wait for the re-render', async () => {
+      const { root, spyOnEvent } = await render<HTMLMyButtonElement>(<my-button>Click me</my-button>);
+      const spy = spyOnEvent('buttonClick');
+      root.addEventListener('buttonClick', () => {
+        root.variant = 'danger';
+      });
+
+      await stencilUserEvent.click(root);
+
+      expect(spy).toHaveReceivedEventTimes(1);
+      expect(root.shadowRoot?.querySelector('button')).toHaveClass('button--danger');
+    });
+
+    it('should type into inputs inside shadow roots', async () => {
+      const { root } = await render<HTMLMyInputElement>(<my-input label="Name" />);
+
+      await stencilUserEvent.type(root.shadowRoot!.querySelector('input')!, 'Ada');
+
+      expect(root.value).toBe('Ada');
+    });
+  });
+
   describe('event spy in browser', () => {
     it('should spy on events using interactivity API', async () => {
       const { root, spyOnEvent } = await render(<my-button>Click me</my-button>);
@@ -0,0 +1,123 @@
+/**
+ * Tests for stepping animation frames with the frame scheduler
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  render,
+  waitForChanges,
+  useFakeAnimationFrames,
+  useRealAnimationFrames,
+  advanceFrames,
+  flushAnimationFrames,
+  getPendingAnimationFrames,
+} from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+/**
+ * Fade an element in over `duration` milliseconds, one step per frame
+ */
+function fadeIn(elm: HTMLElement, duration: number) {
+  let start: number | undefined;
+  const step = (timestamp: number) => {
+    start ??= timestamp;
+    const progress = Math.min((timestamp - start) / duration, 1);
+    elm.setAttribute('data-opacity', String(progress));
+    if (progress < 1) {
+      requestAnimationFrame(step);
+    }
+  };
+  requestAnimationFrame(step);
+}
+
+describe('my-card - animation frames (happy-dom)', () => {
+  afterEach(() => {
+    useRealAnimationFrames();
+  });
+
+  it('should run frames automatically by default', async () => {
+    const { root } = await render(<my-card />);
+
+    fadeIn(root, 32);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(root).toEqualAttribute('data-opacity', '1');
+  });
+
+  it('should step frames one at a time', async () => {
+    const { root } = await render(<my-card />);
+    useFakeAnimationFrames();
+    const pending = getPendingAnimationFrames();
+
+    fadeIn(root, 64);
+    expect(getPendingAnimationFrames()).toBe(pending + 1);
+
+    advanceFrames();
+    expect(root).toEqualAttribute('data-opacity', '0');
+
+    advanceFrames(2);
+    expect(root).toEqualAttribute('data-opacity', '0.5');
+
+    // Nothing runs until the test steps the frames
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(root).toEqualAttribute('data-opacity', '0.5');
+    expect(getPendingAnimationFrames()).toBe(1);
+  });
+
+  it('should flush frames until the animation finishes', async () => {
+    const { root } = await render(<my-card />);
+    useFakeAnimationFrames({ frameDuration: 10 });
+
+    fadeIn(root, 100);
+
+    expect(flushAnimationFrames()).toBe(11);
+    expect(root).toEqualAttribute('data-opacity', '1');
+    expect(getPendingAnimationFrames()).toBe(0);
+  });
+
+  it('should give up on animations that never finish', async () => {
+    useFakeAnimationFrames();
+    let frame = 0;
+    const loop = () => {
+      frame = requestAnimationFrame(loop);
+    };
+    loop();
+
+    expect(() => flushAnimationFrames(5)).toThrow(
+      'flushAnimationFrames() gave up after 5 frames. 1 callback(s) are still pending',
+    );
+    cancelAnimationFrame(frame);
+    expect(getPendingAnimationFrames()).toBe(0);
+  });
+
+  it('should fake performance.now() against the frame clock', async () => {
+    useFakeAnimationFrames({ frameDuration: 20 });
+    const start = performance.now();
+
+    advanceFrames(3);
+
+    expect(performance.now() - start).toBe(60);
+  });
+
+  it('should drop pending callbacks when frames run automatically again', async () => {
+    useFakeAnimationFrames();
+    const callback = vi.fn();
+    requestAnimationFrame(callback);
+
+    useRealAnimationFrames();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(getPendingAnimationFrames()).toBe(0);
+  });
+
+  it('should flush component updates with waitForChanges', async () => {
+    const { root } = await render<HTMLMyCardElement>(<my-card cardTitle="Before" />);
+    useFakeAnimationFrames();
+
+    root.cardTitle = 'After';
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Before');
+
+    await waitForChanges();
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('After');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for automatic per-test cleanup and leak reporting
+ */
+import { describe, it, expect, vi, afterAll, beforeAll } from 'vitest';
+import { render, cleanup, enableAutoCleanup } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+enableAutoCleanup();
+
+describe('my-card - auto cleanup', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  afterAll(() => {
+    warn.mockRestore();
+  });
+
+  describe('stage removal', () => {
+    it('should render a stage', async () => {
+      await render(<my-card cardTitle="First" />);
+
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(1);
+    });
+
+    it('should have removed the stage from the previous test', () => {
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(0);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should only remove stages created by render()', async () => {
+      const own = document.createElement('div');
+      document.body.appendChild(own);
+
+      await render(<my-card />);
+      await render(<my-card />);
+
+      expect(own.isConnected).toBe(true);
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(2);
+
+      cleanup();
+      own.remove();
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(0);
+    });
+  });
+
+  describe('fixtures rendered in beforeAll', () => {
+    let fixture: HTMLElement;
+
+    beforeAll(async () => {
+      fixture = (await render(<my-card cardTitle="Shared" />)).root;
+    });
+
+    it('should render a stage next to the fixture', async () => {
+      await render(<my-card cardTitle="Own" />);
+
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(2);
+    });
+
+    it('should have kept the fixture after the previous test', () => {
+      expect(fixture.isConnected).toBe(true);
+      expect(document.querySelectorAll('.stencil-component-stage')).toHaveLength(1);
+    });
+  });
+
+  describe('leak reporting', () => {
+    const onResize = () => {};
+    let leftBehind: HTMLElement;
+    let interval: ReturnType<typeof setInterval>;
+
+    it('should leave listeners, timers and elements behind', async () => {
+      warn.mockClear();
+      await render(<my-card />);
+
+      window.addEventListener('resize', onResize);
+      interval = setInterval(() => {}, 1000);
+      leftBehind = document.createElement('section');
+      document.body.appendChild(leftBehind);
+    });
+
+    it('should have warned about the leaks', () => {
+      window.removeEventListener('resize', onResize);
+      clearInterval(interval);
+      leftBehind.remove();
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      const message = warn.mock.calls[0][0];
+      expect(message).toContain('should leave listeners, timers and elements behind');
+      expect(message).toContain('event listener "resize" left on window');
+      expect(message).toContain('setInterval(1000ms)');
+      expect(message).toContain('<section>');
+      expect(message).not.toContain('disconnectedCallback');
+    });
+
+    it('should not warn about cleaned up resources', async () => {
+      warn.mockClear();
+      await render(<my-card />);
+
+      window.addEventListener('resize', onResize);
+      window.removeEventListener('resize', onResize);
+      clearTimeout(setTimeout(() => {}, 1000));
+    });
+
+    it('should not have warned', () => {
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for shadow-piercing queries
+ */
+import { describe, it, expect } from 'vitest';
+import { find, findAll, render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+const renderCard = () =>
+  render(
+    <my-card cardTitle="Settings">
+      <p class="intro">Pick a plan</p>
+      <my-button slot="footer" class="cancel" variant="secondary">
+        Cancel
+      </my-button>
+      <my-button slot="footer">Save</my-button>
+    </my-card>,
+  );
+
+describe('my-card - find', () => {
+  it('should step into shadow roots with >>>', async () => {
+    const { find } = await renderCard();
+
+    expect(find('my-card >>> .card__title').textContent).toBe('Settings');
+    expect(find<HTMLButtonElement>('my-card .cancel >>> button')).toHaveClass('button--secondary');
+  });
+
+  it('should find light DOM elements without piercing', async () => {
+    const { find, findAll } = await renderCard();
+
+    expect(find('p').textContent).toBe('Pick a plan');
+    expect(findAll('my-button')).toHaveLength(2);
+    expect(findAll('button')).toHaveLength(0);
+  });
+
+  it('should search every open shadow root in deep mode', async () => {
+    const { findAll, find } = await renderCard();
+
+    const buttons = findAll('button', { deep: true });
+    expect(buttons).toHaveLength(2);
+    expect(buttons.map((button) => button.getAttribute('class'))).toEqual([
+      'button button--secondary button--medium',
+      'button button--primary button--medium',
+    ]);
+    expect(find('.card__title', { deep: true }).tagName).toBe('H3');
+  });
+
+  it('should work as standalone exports', async () => {
+    await renderCard();
+
+    expect(findAll(document, 'my-card >>> slot')).toHaveLength(3);
+    expect(find(document, 'my-button:last-child >>> button').textContent).toBe('');
+  });
+
+  it('should list the nearest matches when nothing matches', async () => {
+    const { find } = await renderCard();
+
+    expect(() => find('my-card >>> .card__titel')).toThrow(
+      [
+        'find() found no element matching "my-card >>> .card__titel" in <div class="stencil-component-stage">.',
+        '"my-card" matched 1 element(s), but nothing inside it matched ".card__titel".',
+        'Nearest matches:',
+        '  <h3 class="card__title">',
+      ].join('\n'),
+    );
+  });
+
+  it('should point out matches hidden in shadow roots', async () => {
+    const { find } = await renderCard();
+
+    expect(() => find('button')).toThrow(
+      '"button" matches 2 element(s) inside shadow roots. Pierce them with `>>>` or search with `deep: true`.',
+    );
+  });
+
+  it('should reject selectors with an empty side of >>>', async () => {
+    const { find } = await renderCard();
+
+    expect(() => find('>>> button')).toThrow('Invalid selector ">>> button": `>>>` must have a selector on both sides');
+  });
+});
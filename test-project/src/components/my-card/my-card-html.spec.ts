@@ -0,0 +1,56 @@
+/**
+ * Tests for rendering from HTML strings, like newSpecPage({ html })
+ */
+import { describe, it, expect } from 'vitest';
+import { render, html } from '@johnjenkins/stencil-vitest';
+
+describe('my-card - html rendering', () => {
+  it('should render a component from an HTML string', async () => {
+    const { root } = await render('<my-card card-title="From HTML"><p>Content</p></my-card>');
+
+    expect(root.tagName.toLowerCase()).toBe('my-card');
+    expect(root).toHaveClass('hydrated');
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('From HTML');
+    expect(root.querySelector('p')?.textContent).toBe('Content');
+  });
+
+  it('should render named slot content', async () => {
+    const { root } = await render(`
+      <my-card card-title="Card">
+        <span slot="header-actions">x</span>
+        <div slot="footer">Footer</div>
+      </my-card>
+    `);
+
+    expect(root.querySelector('[slot="header-actions"]')?.textContent).toBe('x');
+    expect(root.shadowRoot!.querySelector('.card__header')).toBeTruthy();
+  });
+
+  it('should upgrade and wait for every custom element in the markup', async () => {
+    const { root } = await render(`
+      <my-card card-title="Actions">
+        <my-button variant="danger">Delete</my-button>
+      </my-card>
+    `);
+    const button = root.querySelector('my-button')!;
+
+    expect(button).toHaveClass('hydrated');
+    expect(button.shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+  });
+
+  it('should render from the html tagged template', async () => {
+    const title = 'Tagged';
+    const { root, setProps } = await render(html`<my-card card-title=${title}></my-card>`);
+
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Tagged');
+
+    await setProps({ cardTitle: 'Updated' });
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Updated');
+  });
+
+  it('should apply render options to the root element', async () => {
+    const { root } = await render('<my-card></my-card>', { props: { cardTitle: 'With options' } });
+
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('With options');
+  });
+});
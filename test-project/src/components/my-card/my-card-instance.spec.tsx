@@ -0,0 +1,70 @@
+/**
+ * Tests for reaching the component class instance
+ */
+import { describe, it, expect } from 'vitest';
+import { render, getInstance } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+import type { MyCard } from './my-card';
+import type { MyButton } from '../my-button/my-button';
+
+describe('my-card - component instance', () => {
+  it('should return the component instance rather than the host element', async () => {
+    const { root, instance } = await render<HTMLMyCardElement, MyCard>(<my-card cardTitle="Title" elevation={2} />);
+
+    expect(instance === (root as any)).toBe(false);
+    expect((instance as any).tagName).toBeUndefined();
+    expect(instance.cardTitle).toBe('Title');
+    expect(instance.elevation).toBe(2);
+    expect(typeof instance.render).toBe('function');
+  });
+
+  it('should reflect prop changes on the instance', async () => {
+    const { instance, setProps } = await render<HTMLMyCardElement, MyCard>(<my-card />);
+
+    await setProps({ interactive: true });
+
+    expect(instance.interactive).toBe(true);
+  });
+
+  it('should resolve the instance once a component rendered without waiting has loaded', async () => {
+    const result = await render<HTMLMyCardElement, MyCard>(<my-card cardTitle="Later" />, { waitForLoad: false });
+
+    await (result.root as any).componentOnReady();
+
+    expect(result.instance === (result.root as any)).toBe(false);
+    expect(typeof result.instance.render).toBe('function');
+    expect(result.instance.cardTitle).toBe('Later');
+  });
+
+  it('should return the host element when the root is not a component', async () => {
+    const { root, instance } = await render(<div class="wrapper" />);
+
+    expect(instance).toBe(root);
+  });
+
+  it('should get the instance of nested components', async () => {
+    const { root } = await render(
+      <my-card>
+        <my-button variant="danger">Delete</my-button>
+      </my-card>,
+    );
+
+    const button = getInstance<MyButton>(root.querySelector('my-button')!);
+
+    // The click handler is a class field, only found on the instance
+    expect('handleClick' in button).toBe(true);
+    expect(button.variant).toBe('danger');
+  });
+
+  it('should throw for elements that are not Stencil components', async () => {
+    const { root } = await render(
+      <my-card>
+        <p>Body</p>
+      </my-card>,
+    );
+
+    expect(() => getInstance(root.querySelector('p')!)).toThrow(
+      'getInstance() expects a Stencil component element, received <p>',
+    );
+  });
+});
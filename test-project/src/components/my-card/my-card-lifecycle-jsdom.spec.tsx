@@ -0,0 +1,109 @@
+/**
+ * Tests for the lifecycle recorder and lifecycle matchers
+ */
+import { describe, it, expect } from 'vitest';
+import { render, cleanup, getLifecycleCalls, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-card - lifecycle recorder (jsdom)', () => {
+  it('should record the initial load in order', async () => {
+    const { root } = await render(<my-card cardTitle="Card" />, { recordLifecycle: true });
+
+    expect(getLifecycleCalls(root)).toEqual([
+      'connectedCallback',
+      'componentWillLoad',
+      'componentWillRender',
+      'componentDidRender',
+      'componentDidLoad',
+    ]);
+    expect(root).toHaveCalledLifecycle('componentWillLoad', 1);
+    expect(root).not.toHaveCalledLifecycle('componentDidUpdate');
+  });
+
+  it('should record updates', async () => {
+    const { root, setProps } = await render(<my-card cardTitle="Card" />, { recordLifecycle: true });
+
+    await setProps({ cardTitle: 'Updated' });
+
+    expect(root).toHaveCalledLifecycle('componentDidUpdate', 1);
+    expect(root).toHaveLifecycleOrder([
+      'componentDidLoad',
+      'componentWillUpdate',
+      'componentWillRender',
+      'componentDidRender',
+      'componentDidUpdate',
+    ]);
+  });
+
+  it('should not record an update when a prop is set to the same value', async () => {
+    const { root, setProps } = await render(<my-card elevation={2} />, { recordLifecycle: true });
+
+    await setProps({ elevation: 2 });
+
+    expect(root).toHaveCalledLifecycle('componentDidUpdate', 0);
+  });
+
+  it('should record nested components and disconnection', async () => {
+    const { root, unmount } = await render(
+      <my-card>
+        <my-button>Save</my-button>
+      </my-card>,
+      { recordLifecycle: true },
+    );
+    const button = root.querySelector('my-button')!;
+
+    expect(button).toHaveCalledLifecycle('componentDidLoad', 1);
+
+    unmount();
+
+    expect(root).toHaveLifecycleOrder(['componentDidLoad', 'disconnectedCallback']);
+    expect(button).toHaveCalledLifecycle('disconnectedCallback', 1);
+  });
+
+  it('should only record stages that opt in', async () => {
+    const { root } = await render(<my-card />);
+
+    expect(getLifecycleCalls(root)).toBeUndefined();
+    expect(() => expect(root).toHaveCalledLifecycle('componentDidLoad')).toThrow(
+      'Lifecycle calls were not recorded for <my-card>. Render it with `recordLifecycle: true`',
+    );
+  });
+
+  it('should report components registered before their stage was mounted', async () => {
+    cleanup();
+    const card = document.createElement('my-card');
+
+    const { root } = await render(<div />, { recordLifecycle: true });
+    root.appendChild(card);
+    await waitForChanges();
+
+    expect(() => expect(card).toHaveCalledLifecycle('componentDidLoad')).toThrow(
+      'Lifecycle calls could not be recorded for <my-card>: it was not registered with Stencil while its stage was mounted',
+    );
+  });
+
+  it('should stop intercepting host registration once recording stages are unmounted', async () => {
+    cleanup();
+    const hostRef = () => Object.getOwnPropertyDescriptor(HTMLElement.prototype, '__stencil__getHostRef');
+    const before = hostRef();
+
+    const recorded = await render(<my-card />, { recordLifecycle: true });
+    const counted = await render(<my-button>Save</my-button>, { countRenders: true });
+    expect(hostRef()).not.toEqual(before);
+
+    recorded.unmount();
+    expect(hostRef()).not.toEqual(before);
+
+    counted.unmount();
+    expect(hostRef()).toEqual(before);
+    expect(recorded.root).toHaveCalledLifecycle('disconnectedCallback', 1);
+  });
+
+  it('should describe the recorded calls when the order does not match', async () => {
+    const { root } = await render(<my-card />, { recordLifecycle: true });
+
+    expect(() => expect(root).toHaveLifecycleOrder(['componentDidLoad', 'componentWillLoad'])).toThrow(
+      'but componentWillLoad was not called after componentDidLoad. Recorded calls:\n  1. connectedCallback\n  2. componentWillLoad',
+    );
+  });
+});
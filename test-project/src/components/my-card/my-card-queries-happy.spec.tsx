@@ -0,0 +1,103 @@
+/**
+ * Tests for Testing Library style queries
+ */
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+const renderCard = () =>
+  render(
+    <my-card cardTitle="Settings">
+      <p data-testid="intro">Pick a plan</p>
+      <label>
+        Email <input type="email" />
+      </label>
+      <input type="search" aria-label="Filter plans" hidden />
+      <my-button slot="footer" class="cancel" variant="secondary">
+        Cancel
+      </my-button>
+      <my-button slot="footer">Save</my-button>
+    </my-card>,
+  );
+
+describe('my-card - queries (happy-dom)', () => {
+  it('should find elements by role inside shadow roots, named by their slotted text', async () => {
+    const { getByRole, getAllByRole } = await renderCard();
+
+    expect(getByRole('button', { name: 'Save' })).toHaveClass('button--primary');
+    expect(getByRole('button', { name: /cancel/i })).toHaveClass('button--secondary');
+    expect(getAllByRole('button')).toHaveLength(2);
+    expect(getByRole('heading', { name: 'Settings', level: 3 }).textContent).toBe('Settings');
+  });
+
+  it('should skip hidden elements unless asked for them', async () => {
+    const { queryByRole, getByRole } = await renderCard();
+
+    expect(queryByRole('searchbox')).toBeNull();
+    expect(getByRole('searchbox', { hidden: true })).toEqualAttribute('aria-label', 'Filter plans');
+  });
+
+  it('should follow aria-labelledby from a shadow root to light DOM content', async () => {
+    const { root, getByRole, getByLabelText } = await render(
+      <my-card>
+        <h2 id="plans-heading">Plans</h2>
+      </my-card>,
+    );
+
+    const card = root.shadowRoot!.querySelector('.card')!;
+    card.setAttribute('role', 'region');
+    card.setAttribute('aria-labelledby', 'plans-heading');
+
+    expect(getByRole('region', { name: 'Plans' })).toBe(card);
+    expect(getByLabelText('Plans')).toBe(card);
+  });
+
+  it('should find elements by text, label and test id', async () => {
+    const { getByText, getByLabelText, getByTestId, queryByText } = await renderCard();
+
+    expect(getByText('Pick a plan')).toBe(getByTestId('intro'));
+    expect(getByText('pick a', { exact: false }).tagName).toBe('P');
+    expect(getByText('Settings', { selector: 'h3' })).toHaveClass('card__title');
+    expect(getByLabelText('Email')).toEqualAttribute('type', 'email');
+    expect(getByLabelText('Filter plans')).toEqualAttribute('type', 'search');
+    expect(queryByText('Delete')).toBeNull();
+  });
+
+  it('should scope queries with within() and screen', async () => {
+    const { root } = await renderCard();
+
+    const footer = root.querySelector<HTMLElement>('.cancel')!;
+    expect(within(footer).getAllByRole('button')).toHaveLength(1);
+    expect(screen.getByRole('button', { name: 'Save' })).toHaveClass('button--primary');
+  });
+
+  it('should wait for elements with findBy', async () => {
+    const { root, findByRole, findAllByText } = await render(<my-card />);
+
+    (root as any).cardTitle = 'Later';
+
+    expect((await findByRole('heading', { name: 'Later' })).tagName).toBe('H3');
+    expect(await findAllByText('Later')).toHaveLength(1);
+    await expect(findByRole('dialog', {}, { timeout: 100 })).rejects.toThrow(
+      'Unable to find an element with the role "dialog"',
+    );
+  });
+
+  it('should explain what it found when a query fails', async () => {
+    const { getByRole } = await renderCard();
+
+    expect(() => getByRole('button', { name: 'Delete' })).toThrow(
+      [
+        'Unable to find an element with the role "button" and name "Delete" in <div class="stencil-component-stage">',
+        '',
+        'Accessible roles in <div class="stencil-component-stage">:',
+        '  heading: "Settings"',
+        '  textbox: "Email"',
+        '  button: "Cancel", "Save"',
+      ].join('\n'),
+    );
+    expect(() => getByRole('button')).toThrow(
+      'Found 2 elements with the role "button". Use getAllByRole() or queryAllByRole() to get all of them',
+    );
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for render counting, toHaveRenderedTimes() and expectNoRerender()
+ */
+import { describe, it, expect } from 'vitest';
+import { render, cleanup, expectNoRerender, getRenderCount, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-card - render counting', () => {
+  it('should count the initial render', async () => {
+    const { root } = await render(<my-card cardTitle="Card" />, { countRenders: true });
+
+    expect(root).toHaveRenderedTimes(1);
+    expect(getRenderCount(root)).toBe(1);
+  });
+
+  it('should count re-renders caused by prop changes', async () => {
+    const { root, setProps } = await render(<my-card cardTitle="Card" />, { countRenders: true });
+
+    await setProps({ cardTitle: 'Updated' });
+    await setProps({ elevation: 3 });
+
+    expect(root).toHaveRenderedTimes(3);
+  });
+
+  it('should count each component separately', async () => {
+    const { root, setProps } = await render(
+      <my-card>
+        <my-button>Save</my-button>
+      </my-card>,
+      { countRenders: true },
+    );
+    const button = root.querySelector('my-button')!;
+
+    await setProps({ interactive: true });
+
+    expect(root).toHaveRenderedTimes(2);
+    expect(button).toHaveRenderedTimes(1);
+  });
+
+  it('should pass expectNoRerender when a prop is set to the same value', async () => {
+    const { root } = await render<HTMLMyCardElement>(<my-card elevation={2} />, { countRenders: true });
+
+    await expectNoRerender(() => {
+      root.elevation = 2;
+    });
+
+    expect(root).toHaveRenderedTimes(1);
+  });
+
+  it('should fail expectNoRerender when a component re-renders', async () => {
+    const { root } = await render<HTMLMyCardElement>(
+      <my-card>
+        <my-button>Save</my-button>
+      </my-card>,
+      { countRenders: true },
+    );
+    const button = root.querySelector('my-button')!;
+
+    await expect(
+      expectNoRerender(async () => {
+        root.elevation = 3;
+        button.variant = 'danger';
+      }),
+    ).rejects.toThrow(
+      'Expected no re-renders, but 2 component(s) re-rendered: <my-card> (1 time), <my-button> (1 time)',
+    );
+  });
+
+  it('should require countRenders', async () => {
+    const { root } = await render(<my-card />);
+
+    expect(getRenderCount(root)).toBeUndefined();
+    expect(() => expect(root).toHaveRenderedTimes(1)).toThrow(
+      'Renders were not counted for <my-card>. Render it with `countRenders: true`',
+    );
+    await expect(expectNoRerender(() => {})).rejects.toThrow(
+      'expectNoRerender() needs a stage rendered with `countRenders: true`',
+    );
+  });
+
+  it('should report components registered before their stage was mounted', async () => {
+    cleanup();
+    const card = document.createElement('my-card');
+
+    const { root } = await render(<div />, { countRenders: true });
+    root.appendChild(card);
+    await waitForChanges();
+
+    expect(() => expect(card).toHaveRenderedTimes(1)).toThrow(
+      'Renders could not be counted for <my-card>: it was not registered with Stencil while its stage was mounted',
+    );
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for render() options: props, attributes, html, slots and waitForLoad
+ */
+import { describe, it, expect } from 'vitest';
+import { render } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-card - render options', () => {
+  describe('props', () => {
+    it('should apply props before the first render', async () => {
+      const { root } = await render<HTMLMyCardElement>(<my-card />, {
+        props: { cardTitle: 'From props', elevation: 3 },
+      });
+
+      expect(root.cardTitle).toBe('From props');
+      expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('From props');
+      expect(root.shadowRoot!.querySelector('.card')).toHaveClass('card--elevation-3');
+    });
+  });
+
+  describe('attributes', () => {
+    it('should set attributes on the rendered element', async () => {
+      const { root } = await render(<my-card />, {
+        attributes: { 'data-testid': 'card', 'card-title': 'From attribute' },
+      });
+
+      expect(root).toEqualAttribute('data-testid', 'card');
+      expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('From attribute');
+    });
+  });
+
+  describe('html', () => {
+    it('should inject light DOM content', async () => {
+      const { root } = await render(<my-card />, {
+        html: '<p class="content">Injected</p>',
+      });
+
+      expect(root.querySelector('p.content')?.textContent).toBe('Injected');
+    });
+  });
+
+  describe('slots', () => {
+    it('should place named slot content from strings', async () => {
+      const { root } = await render(<my-card cardTitle="Card" />, {
+        slots: {
+          footer: '<button>Save</button>',
+          'header-actions': 'Edit',
+        },
+      });
+
+      expect(root.querySelector('button')).toEqualAttribute('slot', 'footer');
+      const action = root.querySelector('[slot="header-actions"]');
+      expect(action?.tagName.toLowerCase()).toBe('span');
+      expect(action?.textContent).toBe('Edit');
+    });
+
+    it('should place elements and default slot content', async () => {
+      const footer = document.createElement('div');
+      footer.textContent = 'Footer';
+
+      const { root } = await render(<my-card />, {
+        slots: {
+          default: '<p>Body</p>',
+          footer,
+        },
+      });
+
+      expect(root.querySelector('p')?.hasAttribute('slot')).toBe(false);
+      expect(footer).toEqualAttribute('slot', 'footer');
+      expect(footer.parentElement).toBe(root);
+    });
+  });
+
+  describe('waitForLoad', () => {
+    it('should return before the component has loaded', async () => {
+      const { root } = await render(<my-card cardTitle="Pending" />, { waitForLoad: false });
+
+      expect(root).not.toHaveClass('hydrated');
+
+      await (root as any).componentOnReady();
+      expect(root).toHaveClass('hydrated');
+      expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Pending');
+    });
+  });
+});
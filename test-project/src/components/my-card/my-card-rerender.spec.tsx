@@ -0,0 +1,89 @@
+/**
+ * Tests for rerender(): patching a new VNode tree into the same stage
+ */
+import { describe, it, expect } from 'vitest';
+import { render, html } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-card - rerender', () => {
+  it('should keep the same element when patching props', async () => {
+    const { root, rerender } = await render(<my-card cardTitle="Initial" />);
+
+    await rerender(<my-card cardTitle="Updated" elevation={2} />);
+
+    expect(root.isConnected).toBe(true);
+    expect(root.parentElement!.children).toHaveLength(1);
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Updated');
+    expect(root.shadowRoot!.querySelector('.card')).toHaveClass('card--elevation-2');
+  });
+
+  it('should update slot content over time', async () => {
+    const { root, rerender } = await render(
+      <my-card cardTitle="Card">
+        <p>First</p>
+      </my-card>,
+    );
+    const paragraph = root.querySelector('p');
+
+    await rerender(
+      <my-card cardTitle="Card">
+        <p>Second</p>
+        <div slot="footer">Footer</div>
+      </my-card>,
+    );
+
+    expect(root.querySelector('p')).toBe(paragraph);
+    expect(paragraph?.textContent).toBe('Second');
+    expect(root.querySelector('[slot="footer"]')?.textContent).toBe('Footer');
+
+    await rerender(<my-card cardTitle="Card" />);
+
+    expect(root.children).toHaveLength(0);
+  });
+
+  it('should keep nested component instances alive', async () => {
+    const { root, rerender } = await render(
+      <my-card cardTitle="Actions">
+        <my-button variant="primary">Save</my-button>
+      </my-card>,
+    );
+    const button = root.querySelector('my-button')!;
+
+    await rerender(
+      <my-card cardTitle="Actions">
+        <my-button variant="danger">Delete</my-button>
+      </my-card>,
+    );
+
+    expect(root.querySelector('my-button')).toBe(button);
+    expect(button.textContent).toBe('Delete');
+    expect(button.shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+  });
+
+  it('should change wrapping elements', async () => {
+    const { root, rerender } = await render(
+      <my-card>
+        <section>
+          <my-button>Inside section</my-button>
+        </section>
+      </my-card>,
+    );
+
+    await rerender(
+      <my-card>
+        <article>
+          <my-button>Inside article</my-button>
+        </article>
+      </my-card>,
+    );
+
+    expect(root.querySelector('section')).toBeNull();
+    expect(root.querySelector('article my-button')?.textContent).toBe('Inside article');
+  });
+
+  it('should throw for stages rendered from HTML', async () => {
+    const { rerender } = await render(html`<my-card></my-card>`);
+
+    await expect(rerender(<my-card />)).rejects.toThrow('rerender() can only be used');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for slot assignment, slotchange and the slot matchers
+ */
+import { describe, it, expect } from 'vitest';
+import { find, render, spyOnEvent, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+const slotOf = (card: HTMLElement, selector: string) => find<HTMLSlotElement>(card.shadowRoot!, selector);
+
+describe('my-card - slots', () => {
+  it('should assign the host children to slots by name', async () => {
+    const { root } = await render(
+      <my-card cardTitle="Settings">
+        <button slot="header-actions">Edit</button>
+        Pick a plan
+        <my-button slot="footer">Save</my-button>
+      </my-card>,
+    );
+    const header = slotOf(root, 'slot[name="header-actions"]');
+    const content = slotOf(root, '.card__content slot');
+    const footer = slotOf(root, 'slot[name="footer"]');
+    const edit = find(root, 'button');
+    const save = find(root, 'my-button');
+
+    expect(header.assignedElements()).toEqual([edit]);
+    expect(footer.assignedNodes()).toEqual([save]);
+    expect(content.assignedElements()).toEqual([]);
+    expect(content.assignedNodes().map((node) => node.textContent?.trim())).toContain('Pick a plan');
+    expect(save.assignedSlot).toBe(footer);
+  });
+
+  it('should fire slotchange when the assigned nodes change', async () => {
+    const { root } = await render(
+      <my-card>
+        <p>Pick a plan</p>
+      </my-card>,
+    );
+    const content = slotOf(root, '.card__content slot');
+    const footer = slotOf(root, 'slot[name="footer"]');
+    const contentSpy = spyOnEvent(content, 'slotchange');
+    const footerSpy = spyOnEvent(footer, 'slotchange');
+
+    const save = document.createElement('button');
+    save.setAttribute('slot', 'footer');
+    save.textContent = 'Save';
+    root.appendChild(save);
+    await waitForChanges();
+
+    expect(footerSpy).toHaveReceivedEventTimes(1);
+    expect(contentSpy).toHaveReceivedEventTimes(0);
+
+    save.removeAttribute('slot');
+    await waitForChanges();
+
+    expect(footerSpy).toHaveReceivedEventTimes(2);
+    expect(contentSpy).toHaveReceivedEventTimes(1);
+    expect(content.assignedElements()).toContain(save);
+  });
+
+  it('should check slotted content with toHaveSlotted() and toHaveEmptySlot()', async () => {
+    const { root } = await render(
+      <my-card cardTitle="Settings">
+        <p class="intro">Pick a plan</p>
+        <my-button slot="footer" class="cancel">
+          Cancel
+        </my-button>
+      </my-card>,
+    );
+
+    expect(root).toHaveSlotted('');
+    expect(root).toHaveSlotted('', 'p.intro');
+    expect(root).toHaveSlotted('footer', 'my-button.cancel');
+    expect(root).toHaveSlotted('footer', 'Cancel');
+    expect(root).not.toHaveSlotted('footer', 'Save');
+    expect(root).toHaveEmptySlot('header-actions');
+    expect(root).not.toHaveEmptySlot('footer');
+
+    expect(() => expect(root).toHaveSlotted('footer', 'Save')).toThrow(
+      'Expected <my-card> to have "Save" slotted into the "footer" slot, but it has <my-button> "Cancel"',
+    );
+    expect(() => expect(root).toHaveEmptySlot('footer')).toThrow(
+      'Expected the "footer" slot of <my-card> to be empty, but it has <my-button> "Cancel"',
+    );
+    expect(() => expect(root).toHaveSlotted('actions')).toThrow(
+      'Expected <my-card> to have the "actions" slot, but its slots are named "header-actions", "", "footer"',
+    );
+  });
+});
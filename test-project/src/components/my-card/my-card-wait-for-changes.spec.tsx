@@ -0,0 +1,83 @@
+/**
+ * Tests for flushing Stencil's update cycle with waitForChanges()
+ */
+import { describe, it, expect } from 'vitest';
+import { render, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-card - waitForChanges', () => {
+  it('should flush a prop change', async () => {
+    const { root } = await render<HTMLMyCardElement>(<my-card cardTitle="Before" />);
+
+    root.cardTitle = 'After';
+    await waitForChanges();
+
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('After');
+  });
+
+  it('should flush nested components', async () => {
+    const { root, waitForChanges } = await render<HTMLMyCardElement>(
+      <my-card cardTitle="Card">
+        <my-button variant="primary">Save</my-button>
+      </my-card>,
+    );
+    const button = root.querySelector('my-button')!;
+
+    root.elevation = 3;
+    button.variant = 'danger';
+    await waitForChanges();
+
+    expect(root.shadowRoot!.querySelector('.card')).toHaveClass('card--elevation-3');
+    expect(button.shadowRoot!.querySelector('button')).toHaveClass('button--danger');
+  });
+
+  it('should wait for components that are still loading', async () => {
+    const { root } = await render(<my-card cardTitle="Pending" />, { waitForLoad: false });
+
+    await waitForChanges();
+
+    expect(root).toHaveClass('hydrated');
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('Pending');
+  });
+
+  it('should apply setProps in a single flush', async () => {
+    const { root, setProps } = await render(<my-card cardTitle="Before" />);
+
+    await setProps({ cardTitle: 'After', interactive: true });
+
+    expect(root.shadowRoot!.querySelector('.card__title')?.textContent).toBe('After');
+    expect(root.shadowRoot!.querySelector('.card')).toHaveClass('card--interactive');
+  });
+
+  it('should list components that never settle', async () => {
+    const { root, instance } = await render<HTMLMyCardElement>(<my-card />);
+
+    // Update a prop straight after every render so the component is always dirty
+    instance.componentDidRender = () => {
+      Promise.resolve().then(() => {
+        root.elevation = root.elevation === 1 ? 2 : 1;
+      });
+    };
+    root.elevation = 2;
+
+    await expect(waitForChanges({ maxIterations: 3 })).rejects.toThrow(
+      'waitForChanges() gave up after 3 iterations. Components with pending updates: <my-card>',
+    );
+
+    delete instance.componentDidRender;
+    await waitForChanges();
+  });
+
+  it('should fail rather than report idle when the build hides the host flags', async () => {
+    const { root } = await render(<my-card />);
+    const hidden = document.createElement('div');
+    (hidden as any).__stencil__getHostRef = () => ({});
+    root.appendChild(hidden);
+
+    await expect(waitForChanges()).rejects.toThrow(
+      'Unable to tell whether <div> has pending updates: its Stencil build does not expose the host flags',
+    );
+
+    hidden.remove();
+  });
+});
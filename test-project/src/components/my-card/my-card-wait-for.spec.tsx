@@ -0,0 +1,64 @@
+/**
+ * Tests for waitFor and waitForSelector
+ */
+import { describe, it, expect } from 'vitest';
+import { find, render, waitFor, waitForSelector } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+// Simulate a title arriving from a data request
+const loadTitle = (root: HTMLElement, title: string | undefined, delay = 30) =>
+  setTimeout(() => ((root as any).cardTitle = title), delay);
+
+describe('my-card - waitFor', () => {
+  it('should retry an assertion until the component renders', async () => {
+    const { root } = await render(<my-card />);
+    loadTitle(root, 'Settings');
+
+    const title = await waitFor(() => {
+      const heading = find(root.shadowRoot!, '.card__title');
+      expect(heading).toEqualText('Settings');
+      return heading;
+    });
+
+    expect(title.tagName).toBe('H3');
+  });
+
+  it('should report the last error when it times out', async () => {
+    const { root } = await render(<my-card cardTitle="Settings" />);
+
+    await expect(
+      waitFor(() => expect(find(root.shadowRoot!, '.card__title')).toEqualText('Profile'), { timeout: 100 }),
+    ).rejects.toThrow(
+      'waitFor() timed out after 100ms. Last error: Expected element text to equal "Profile", but got "Settings"',
+    );
+  });
+
+  it('should wait for a selector to be attached, visible and detached', async () => {
+    const { root, waitForSelector } = await render(<my-card />);
+    loadTitle(root, 'Settings');
+
+    const title = await waitForSelector('my-card >>> .card__title');
+    expect(title).toEqualText('Settings');
+
+    root.setAttribute('hidden', '');
+    setTimeout(() => root.removeAttribute('hidden'), 30);
+    expect(await waitForSelector('my-card >>> .card__title', { state: 'visible' })).toBe(title);
+
+    loadTitle(root, undefined);
+    expect(await waitForSelector('my-card >>> .card__title', { state: 'detached' })).toBeNull();
+  });
+
+  it('should search any container and explain what it was waiting for', async () => {
+    const { root } = await render(<my-card cardTitle="Settings" />);
+
+    expect(await waitForSelector('h3', { container: root.shadowRoot! })).toEqualText('Settings');
+
+    root.setAttribute('hidden', '');
+    await expect(waitForSelector('my-card >>> h3', { state: 'visible', timeout: 100 })).rejects.toThrow(
+      'waitForSelector() timed out after 100ms. Last error: "my-card >>> h3" matches 1 element(s), but none is visible:\n  <h3 class="card__title">',
+    );
+    await expect(waitForSelector('.missing', { timeout: 100 })).rejects.toThrow(
+      'waitForSelector() timed out after 100ms. Last error: no element matches ".missing" in document',
+    );
+  });
+});
@@ -24,6 +24,11 @@ export class MyCard {
    */
   @Prop() interactive: boolean = false;
 
+  /**
+   * Tags listed above the content
+   */
+  @Prop() tags: string[] = [];
+
   render() {
     return (
       <div
@@ -40,6 +45,14 @@ export class MyCard {
           </div>
         )}
 
+        {this.tags.length > 0 && (
+          <ul class="card__tags">
+            {this.tags.map((tag) => (
+              <li class="card__tag">{tag}</li>
+            ))}
+          </ul>
+        )}
+
         <div class="card__content">
           <slot />
         </div>
@@ -0,0 +1,146 @@
+/**
+ * Tests for form-associated components, ElementInternals and form submission
+ */
+import { describe, it, expect } from 'vitest';
+import { getFormData, getInstance, html, render, spyOnEvent, submitForm } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+import type { MyCheckbox } from './my-checkbox';
+
+function entries(data: FormData): [string, FormDataEntryValue][] {
+  const list: [string, FormDataEntryValue][] = [];
+  data.forEach((value, name) => list.push([name, value]));
+  return list;
+}
+
+function states(internals: ElementInternals): string[] {
+  const list: string[] = [];
+  internals.states.forEach((state) => list.push(state));
+  return list;
+}
+
+describe('my-checkbox - forms', () => {
+  it('should add its value to the form data alongside native controls', async () => {
+    const { root } = await render<HTMLFormElement>(html`
+      <form>
+        <input name="email" value="ada@example.com" />
+        <my-checkbox name="terms" checked>Accept</my-checkbox>
+        <my-checkbox name="news" value="weekly">News</my-checkbox>
+        <my-checkbox name="beta" checked disabled>Beta</my-checkbox>
+      </form>
+    `);
+
+    expect(entries(getFormData(root))).toEqual([
+      ['email', 'ada@example.com'],
+      ['terms', 'on'],
+    ]);
+  });
+
+  it('should report form values with toHaveFormValue', async () => {
+    const { root, waitForChanges } = await render<HTMLFormElement>(html`
+      <form>
+        <input name="email" value="ada@example.com" />
+        <my-checkbox name="news" value="weekly">News</my-checkbox>
+      </form>
+    `);
+    const checkbox = root.querySelector('my-checkbox')!;
+
+    expect(root.querySelector('input')).toHaveFormValue('ada@example.com');
+    expect(checkbox).toHaveFormValue(null);
+
+    checkbox.click();
+    await waitForChanges();
+
+    expect(checkbox).toHaveFormValue('weekly');
+    expect(() => expect(checkbox).toHaveFormValue('daily')).toThrow(
+      'Expected <my-checkbox> to have form value "daily", but got "weekly"',
+    );
+  });
+
+  it('should compare file form values by file rather than matching any file', async () => {
+    const { root } = await render(<my-checkbox name="avatar" />);
+    const { internals } = getInstance<MyCheckbox>(root);
+    const avatar = new File(['avatar'], 'avatar.png', { type: 'image/png' });
+
+    internals.setFormValue(avatar);
+
+    expect(root).toHaveFormValue(avatar);
+    expect(root).toHaveFormValue(new File(['avatar'], 'avatar.png', { type: 'image/png' }));
+    expect(root).not.toHaveFormValue(new File(['resume'], 'resume.pdf', { type: 'application/pdf' }));
+    expect(root).not.toHaveFormValue('avatar.png');
+    expect(() => expect(root).toHaveFormValue(new File(['resume'], 'resume.pdf'))).toThrow(
+      'Expected <my-checkbox> to have form value File "resume.pdf", but got File "avatar.png"',
+    );
+  });
+
+  it('should expose validity, the form and custom states through ElementInternals', async () => {
+    const { root, waitForChanges } = await render<HTMLFormElement>(html`
+      <form>
+        <my-checkbox name="terms" required>Accept</my-checkbox>
+      </form>
+    `);
+    const checkbox = root.querySelector('my-checkbox')!;
+    const { internals } = getInstance<MyCheckbox>(checkbox);
+
+    expect(checkbox).toBeInvalid();
+    expect(checkbox).toBeInvalid('valueMissing');
+    expect(checkbox).not.toBeInvalid('customError');
+    expect(internals.validationMessage).toBe('Please check this box');
+    expect(root.isSameNode(internals.form)).toBe(true);
+    expect(states(internals)).toEqual([]);
+
+    checkbox.checked = true;
+    await waitForChanges();
+
+    expect(checkbox).not.toBeInvalid();
+    expect(internals.validationMessage).toBe('');
+    expect(states(internals)).toEqual(['checked']);
+    expect(() => expect(checkbox).toBeInvalid()).toThrow('Expected <my-checkbox> to be invalid, but it is valid');
+  });
+
+  it('should require a message when setting a validity flag', async () => {
+    const { root } = await render(<my-checkbox name="terms" />);
+    const { internals } = getInstance<MyCheckbox>(root);
+
+    expect(() => internals.setValidity({ customError: true })).toThrow('The second argument should not be empty');
+  });
+
+  it('should fire invalid and not submit while a control is invalid', async () => {
+    const { root, waitForChanges } = await render<HTMLFormElement>(html`
+      <form>
+        <input name="email" value="ada@example.com" />
+        <my-checkbox name="terms" required>Accept</my-checkbox>
+      </form>
+    `);
+    const checkbox = root.querySelector('my-checkbox')!;
+    const invalidSpy = spyOnEvent(checkbox, 'invalid');
+    const submitSpy = spyOnEvent(root, 'submit');
+
+    expect(await submitForm(root)).toBeNull();
+    expect(invalidSpy).toHaveReceivedEventTimes(1);
+    expect(submitSpy).not.toHaveReceivedEvent();
+
+    checkbox.click();
+    await waitForChanges();
+    const data = await submitForm(root);
+
+    expect(submitSpy).toHaveReceivedEventTimes(1);
+    expect(data?.get('email')).toBe('ada@example.com');
+    expect(data?.get('terms')).toBe('on');
+  });
+
+  it('should not submit when a listener prevents it, and skip validation with novalidate', async () => {
+    const { root } = await render<HTMLFormElement>(html`
+      <form novalidate>
+        <my-checkbox name="terms" required>Accept</my-checkbox>
+        <button name="action" value="save">Save</button>
+      </form>
+    `);
+    const button = root.querySelector('button')!;
+
+    const data = await submitForm(root, button);
+    expect(entries(data!)).toEqual([['action', 'save']]);
+
+    root.addEventListener('submit', (event) => event.preventDefault());
+    expect(await submitForm(root)).toBeNull();
+  });
+});
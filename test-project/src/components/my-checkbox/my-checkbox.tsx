@@ -0,0 +1,79 @@
+import { AttachInternals, Component, Event, EventEmitter, Host, Prop, h } from '@stencil/core';
+
+/**
+ * A form-associated checkbox component for testing
+ */
+@Component({
+  tag: 'my-checkbox',
+  styleUrl: 'my-checkbox.css',
+  shadow: true,
+  formAssociated: true,
+})
+export class MyCheckbox {
+  @AttachInternals() internals: ElementInternals;
+
+  /**
+   * Name the value is submitted under
+   */
+  @Prop({ reflect: true }) name?: string;
+
+  /**
+   * Value submitted when checked
+   */
+  @Prop() value: string = 'on';
+
+  /**
+   * Whether the checkbox is checked
+   */
+  @Prop({ mutable: true, reflect: true }) checked: boolean = false;
+
+  /**
+   * Whether the checkbox must be checked to submit its form
+   */
+  @Prop({ reflect: true }) required: boolean = false;
+
+  /**
+   * Whether the checkbox is disabled
+   */
+  @Prop({ reflect: true }) disabled: boolean = false;
+
+  /**
+   * Emitted when the user toggles the checkbox
+   */
+  @Event() checkedChange: EventEmitter<boolean>;
+
+  componentWillRender() {
+    this.updateFormState();
+  }
+
+  private updateFormState() {
+    this.internals.setFormValue(this.checked ? this.value : null);
+    if (this.required && !this.checked) {
+      this.internals.setValidity({ valueMissing: true }, 'Please check this box');
+    } else {
+      this.internals.setValidity({});
+    }
+    // `CustomStateSet` only declares its set methods in the iterable DOM typings
+    const states = this.internals.states as unknown as Set<string>;
+    if (this.checked) {
+      states.add('checked');
+    } else {
+      states.delete('checked');
+    }
+  }
+
+  private toggle = () => {
+    if (this.disabled) return;
+    this.checked = !this.checked;
+    this.checkedChange.emit(this.checked);
+  };
+
+  render() {
+    return (
+      <Host role="checkbox" aria-checked={String(this.checked)} onClick={this.toggle}>
+        <span class="checkbox__box" part="box" />
+        <slot />
+      </Host>
+    );
+  }
+}
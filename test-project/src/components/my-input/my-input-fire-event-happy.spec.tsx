@@ -0,0 +1,62 @@
+/**
+ * Tests for fireEvent and event retargeting across shadow boundaries
+ */
+import { describe, it, expect } from 'vitest';
+import { find, fireEvent, render, spyOnEvent, waitForChanges } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-input - fireEvent (happy-dom)', () => {
+  it('should include shadow roots and hosts in composedPath() for composed events', async () => {
+    const { root } = await render(<my-input label="Name" />);
+    const input = find(root.shadowRoot!, 'input');
+    let path: EventTarget[] = [];
+    document.addEventListener('keydown', (event) => (path = event.composedPath()));
+
+    fireEvent.keyDown(input, { key: 'a' });
+
+    expect(path.slice(0, 4)).toEqual([input, find(root.shadowRoot!, 'label'), root.shadowRoot, root]);
+    expect(path.indexOf(document)).toBe(path.length - 2);
+  });
+
+  it('should stop events that are not composed at the shadow root', async () => {
+    const { root } = await render(<my-input label="Name" value="Ada" />);
+    const input = find(root.shadowRoot!, 'input');
+    const hostSpy = spyOnEvent(root, 'change');
+    const changeSpy = spyOnEvent(root, 'valueChange');
+    let path: EventTarget[] = [];
+    input.addEventListener('change', (event) => (path = event.composedPath()));
+
+    fireEvent.change(input);
+
+    expect(hostSpy).not.toHaveReceivedEvent();
+    expect(changeSpy).toHaveReceivedEventDetail('Ada');
+    expect(path[path.length - 1]).toBe(root.shadowRoot);
+  });
+
+  it('should set target properties before dispatching', async () => {
+    const { root } = await render(<my-input label="Name" />);
+    const inputSpy = spyOnEvent(root, 'valueInput');
+
+    fireEvent.input(find(root.shadowRoot!, 'input'), { target: { value: 'Grace' } });
+    await waitForChanges();
+
+    expect(inputSpy).toHaveReceivedEventDetail('Grace');
+    expect((root as HTMLMyInputElement).value).toBe('Grace');
+  });
+
+  it('should build keyboard events and report prevented defaults', async () => {
+    const { root } = await render(<my-input label="Name" />);
+    const input = find(root.shadowRoot!, 'input');
+    const keySpy = spyOnEvent<KeyboardEvent>(root, 'keydown');
+    root.addEventListener('keydown', (event) => {
+      if ((event as KeyboardEvent).key === 'Enter') event.preventDefault();
+    });
+
+    expect(fireEvent.keyDown(input, { key: 'a', shiftKey: true })).toBe(true);
+    expect(fireEvent.keyDown(input, { key: 'Enter' })).toBe(false);
+
+    const [event] = keySpy.events;
+    expect(event).toBeInstanceOf(window.KeyboardEvent);
+    expect(event).toMatchObject({ key: 'a', shiftKey: true, bubbles: true, cancelable: true, composed: true });
+  });
+});
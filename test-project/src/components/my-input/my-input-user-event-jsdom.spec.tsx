@@ -0,0 +1,125 @@
+/**
+ * Tests for user event simulation
+ */
+import { describe, it, expect } from 'vitest';
+import { find, html, recordEvents, render, spyOnEvent, userEvent } from '@johnjenkins/stencil-vitest';
+import { h } from '@stencil/core';
+
+describe('my-input - user events (jsdom)', () => {
+  it('should press the pointer before clicking, focusing the shadow button', async () => {
+    const { root } = await render(<my-button>Save</my-button>);
+    const button = find(root.shadowRoot!, 'button');
+    const timeline = recordEvents(root, ['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click']);
+    const focusSpy = spyOnEvent(button, 'focus');
+    const clickSpy = spyOnEvent(root, 'buttonClick');
+
+    await userEvent.click(button);
+
+    expect(timeline).toHaveEmittedInOrder(['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click']);
+    expect(focusSpy).toHaveReceivedEventTimes(1);
+    expect(clickSpy).toHaveReceivedEventTimes(1);
+  });
+
+  it('should type into the input inside the shadow root, committing the value on blur', async () => {
+    const { root } = await render(<my-input label="Name" />);
+    const inputSpy = spyOnEvent(root, 'valueInput');
+    const changeSpy = spyOnEvent(root, 'valueChange');
+
+    await userEvent.type(root, 'Ada');
+
+    expect((root as HTMLMyInputElement).value).toBe('Ada');
+    expect(inputSpy).toHaveReceivedEventTimes(3);
+    expect(inputSpy).toHaveLastReceivedEventDetail('Ada');
+    expect(changeSpy).not.toHaveReceivedEvent();
+
+    await userEvent.tab();
+
+    expect(changeSpy).toHaveReceivedEventDetail('Ada');
+  });
+
+  it('should edit at the caret and handle keyboard shortcuts', async () => {
+    const { root } = await render(<my-input value="Ada" />);
+    const keySpy = spyOnEvent<KeyboardEvent>(root, 'keydown');
+
+    await userEvent.type(root, 'mx{ArrowLeft}{Backspace}');
+    expect((root as HTMLMyInputElement).value).toBe('Adax');
+
+    await userEvent.keyboard('{Control>}a{/Control}Grace');
+    expect((root as HTMLMyInputElement).value).toBe('Grace');
+    expect(keySpy.events.find((event) => event.key === 'a')?.ctrlKey).toBe(true);
+
+    await userEvent.clear(root);
+    expect((root as HTMLMyInputElement).value).toBe('');
+  });
+
+  it('should not type into a disabled field', async () => {
+    const { root } = await render(<my-input disabled />);
+
+    await userEvent.type(root, 'Ada');
+
+    expect((root as HTMLMyInputElement).value).toBe('');
+  });
+
+  it('should toggle checkboxes and fire change', async () => {
+    const { root } = await render(
+      <label>
+        <input type="checkbox" /> Subscribe
+      </label>,
+    );
+    const checkbox = find<HTMLInputElement>(root, 'input');
+    const changeSpy = spyOnEvent(checkbox, 'change');
+
+    await userEvent.click(checkbox);
+    expect(checkbox.checked).toBe(true);
+
+    await userEvent.keyboard(' ');
+    expect(checkbox.checked).toBe(false);
+    expect(changeSpy).toHaveReceivedEventTimes(2);
+  });
+
+  it('should tab through shadow roots in tabindex order, skipping what cannot take focus', async () => {
+    // Markup renders wait for every component inside the root to load
+    const { root } = await render(html`
+      <div>
+        <my-input label="Name"></my-input>
+        <button tabindex="-1">Skip</button>
+        <my-button>Save</my-button>
+        <input hidden />
+        <a href="#help">Help</a>
+        <button tabindex="1">First</button>
+      </div>
+    `);
+    const targets = [
+      find(root, 'button[tabindex="1"]'),
+      find(root, 'my-input >>> input'),
+      find(root, 'my-button >>> button'),
+      find(root, 'a'),
+    ];
+    const timeline = recordEvents(root, ['focusin']);
+    const spies = targets.map((target) => spyOnEvent(target, 'focus'));
+
+    for (let i = 0; i < targets.length; i++) {
+      await userEvent.tab();
+      expect(spies[i]).toHaveReceivedEventTimes(1);
+    }
+    await userEvent.tab({ shift: true });
+    expect(spies[2]).toHaveReceivedEventTimes(2);
+
+    // Past the last element focus leaves the page, then starts again from the first
+    await userEvent.tab();
+    await userEvent.tab();
+    await userEvent.tab();
+    expect(spies[0]).toHaveReceivedEventTimes(2);
+    expect(timeline.length).toBe(7);
+  });
+
+  it('should delegate focus from the host to its input', async () => {
+    const { root } = await render(<my-input label="Name" />);
+    const focusSpy = spyOnEvent(find(root.shadowRoot!, 'input'), 'focus');
+    expect(root.shadowRoot!.delegatesFocus).toBe(true);
+
+    await userEvent.click(find(root.shadowRoot!, '.field__label'));
+
+    expect(focusSpy).toHaveReceivedEventTimes(1);
+  });
+});
@@ -0,0 +1,60 @@
+import { Component, Prop, Event, EventEmitter, h } from '@stencil/core';
+
+/**
+ * A text field component for testing, which delegates focus to its input
+ */
+@Component({
+  tag: 'my-input',
+  styleUrl: 'my-input.css',
+  shadow: { delegatesFocus: true },
+})
+export class MyInput {
+  /**
+   * Field label
+   */
+  @Prop() label?: string;
+
+  /**
+   * Current value
+   */
+  @Prop({ mutable: true }) value: string = '';
+
+  /**
+   * Whether the field is disabled
+   */
+  @Prop() disabled: boolean = false;
+
+  /**
+   * Emitted on every edit, with the new value
+   */
+  @Event() valueInput: EventEmitter<string>;
+
+  /**
+   * Emitted when an edited value is committed
+   */
+  @Event() valueChange: EventEmitter<string>;
+
+  private handleInput = (event: Event) => {
+    this.value = (event.target as HTMLInputElement).value;
+    this.valueInput.emit(this.value);
+  };
+
+  private handleChange = () => {
+    this.valueChange.emit(this.value);
+  };
+
+  render() {
+    return (
+      <label class="field">
+        <span class="field__label">{this.label}</span>
+        <input
+          class="field__input"
+          value={this.value}
+          disabled={this.disabled}
+          onInput={this.handleInput}
+          onChange={this.handleChange}
+        />
+      </label>
+    );
+  }
+}